@@ -1,13 +1,43 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
   CallToolRequestSchema,
+  CompleteRequest,
+  CompleteRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  Icon,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  ToolAnnotations,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { StreamableHttpTransport } from "./transport.js";
-import { zodToJsonSchema } from "./schemas.js";
-import { MCPResponse } from "./responses.js";
+import { EventStore, MemoryEventStore } from "./events.js";
+import { InvalidArgumentsError, ToolError, UnauthorizedError } from "./errors.js";
+import { ConcurrencyLimiter, ConcurrencyPolicy } from "./concurrency.js";
+import { MountOptions, ToolGroup } from "./group.js";
+import { CacheStore, canonicalJson, MemoryCacheStore, ToolCallCacheKeys, ToolResultCache } from "./cache.js";
+import { anySignal, CompletionContext, createToolContext, getSessionId, RequestExtra, SessionInfo, SharedRootsFetch, ToolContext } from "./context.js";
+import { isLogLevelEnabled } from "./logging.js";
+import { composeMiddleware, ToolCall, ToolMiddleware, ToolResponseStream } from "./middleware.js";
+import { formatZodIssues, zodToCompletionValues, zodToJsonSchema, zodToPromptArguments } from "./schemas.js";
+import {
+  ErrorResponse,
+  LogResponse,
+  MCPResponse,
+  ProgressResponse,
+  PromptMessage,
+  ResourceResponse,
+  StructuredResponse,
+} from "./responses.js";
 import { z } from "zod";
 
 /**
@@ -15,17 +45,88 @@ import { z } from "zod";
  * 
  * @template T - Zod schema type that extends ZodObject for type-safe argument validation
  */
-interface ToolDefinition<T extends z.ZodObject<any>> {
+export interface ToolDefinition<T extends z.ZodObject<any>> {
   /** Unique identifier for the tool */
   name: string;
+  /** Human-readable display title */
+  title?: string;
   /** Human-readable description of what the tool does */
   description?: string;
+  /** Behaviour hints clients use to decide whether a call needs user confirmation */
+  annotations?: ToolAnnotations;
+  /** Icons clients may display for the tool */
+  icons?: Icon[];
+  /** Additional metadata emitted as the tool's `_meta` in tools/list */
+  _meta?: Record<string, unknown>;
+  /** Excludes the tool from tools/list while keeping it callable */
+  hidden?: boolean;
+  /**
+   * Marks the tool as deprecated: it is excluded from tools/list but stays
+   * callable for existing clients. A string is used as the deprecation notice.
+   */
+  deprecated?: boolean | string;
+  /** Initial enabled state; disabled tools are neither listed nor callable (defaults to true) */
+  enabled?: boolean;
   /** Zod schema for validating tool arguments */
   schema: T;
+  /** Optional Zod schema describing the structured result yielded as a StructuredResponse */
+  outputSchema?: z.ZodObject<any>;
   /** Async generator function that yields MCP responses during execution */
-  handler: (args: z.infer<T>) => AsyncGenerator<MCPResponse, void, unknown>;
+  handler: (args: z.infer<T>, ctx: ToolContext) => AsyncGenerator<MCPResponse, void, unknown>;
+  /** Middleware applied to this tool only, inside any app-level middleware */
+  middleware?: ToolMiddleware<z.infer<T>>[];
+  /** Maximum execution time before the call is aborted (defaults to the app-wide setting) */
+  timeoutMs?: number;
+  /** Maximum number of calls running at once (defaults to the app-wide setting) */
+  maxConcurrency?: number;
+  /** Handling of calls over `maxConcurrency` (defaults to the app-wide setting, then 'queue') */
+  concurrencyPolicy?: ConcurrencyPolicy;
+  /**
+   * Memoizes successful results for identical arguments
+   * 
+   * Results are keyed by tool name and the canonicalized validated arguments,
+   * or by `key` when given; include the caller's identity in `key` when the
+   * result depends on who is asking. Middleware still runs on cache hits.
+   */
+  cache?: {
+    /** How long a result stays valid */
+    ttlMs: number;
+    /** Custom cache key derived from the arguments and context */
+    key?: (args: z.infer<T>, ctx: ToolContext) => string;
+  };
+}
+
+/**
+ * Execution limits applied to a tool
+ */
+interface ToolLimits {
+  /** Maximum execution time in milliseconds */
+  timeoutMs?: number;
+  /** Maximum number of concurrent calls */
+  maxConcurrency?: number;
+  /** Handling of calls over the concurrency limit */
+  concurrencyPolicy?: ConcurrencyPolicy;
+}
+
+/**
+ * Current load of a registered tool
+ */
+interface ToolStats {
+  /** Calls currently running */
+  inFlight: number;
+  /** Calls waiting for a concurrency slot */
+  queued: number;
 }
 
+/**
+ * MCP-formatted result of calling a tool
+ */
+type ToolResult = {
+  content: Array<{ type: string; [key: string]: any }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
 /**
  * Internal representation of a registered tool with MCP-compatible handler
  * 
@@ -35,12 +136,183 @@ interface ToolDefinition<T extends z.ZodObject<any>> {
 interface RegisteredTool {
   /** Unique tool identifier */
   name: string;
+  /** Display title */
+  title?: string;
   /** Tool description for MCP protocol */
   description?: string;
+  /** Behaviour hints */
+  annotations?: ToolAnnotations;
+  /** Display icons */
+  icons?: Icon[];
+  /** Additional tool metadata */
+  _meta?: Record<string, unknown>;
+  /** Whether the tool is left out of tools/list */
+  hidden: boolean;
+  /** Deprecation flag or notice */
+  deprecated?: boolean | string;
+  /** Whether the tool can currently be listed and called */
+  enabled: boolean;
+  /** JSON Schema of the arguments, converted once at registration */
+  inputSchema: Record<string, unknown>;
+  /** JSON Schema of the structured result, if declared */
+  outputSchema?: Record<string, unknown>;
+  /** Processed handler that returns MCP-formatted content */
+  handler: (args: unknown, ctx: ToolContext) => Promise<ToolResult>;
+  /** Maximum execution time in milliseconds, if limited */
+  timeoutMs?: number;
+  /** Concurrency slots and load counters of the tool */
+  limiter: ConcurrencyLimiter;
+}
+
+/**
+ * Custom completion callback for the arguments of a prompt or resource template
+ * 
+ * Returns candidate values for the argument being typed, already filtered by
+ * the partial value. Returning undefined falls back to the values derived from
+ * the schema (enum and literal fields).
+ * 
+ * @template T - Zod schema type describing the arguments
+ */
+type ArgumentCompleter<T extends z.ZodObject<any>> = (
+  argName: Extract<keyof z.infer<T>, string>,
+  value: string,
+  ctx: CompletionContext,
+) => string[] | undefined | Promise<string[] | undefined>;
+
+/**
+ * Resource definition interface for exposing a fixed URI as an MCP resource
+ */
+interface ResourceDefinition {
+  /** Unique URI identifying the resource (e.g. 'config://app') */
+  uri: string;
+  /** Programmatic name of the resource */
+  name: string;
+  /** Human-readable display title */
+  title?: string;
+  /** Description of what the resource contains */
+  description?: string;
+  /** MIME type of the resource contents, if known */
+  mimeType?: string;
+  /** Async generator function that yields the resource contents when it is read */
+  handler: (uri: URL) => AsyncGenerator<ResourceResponse, void, unknown>;
+}
+
+/**
+ * Resource template definition interface for exposing a family of URIs
+ * described by an RFC 6570 URI template
+ * 
+ * @template T - Zod schema type used to validate the variables extracted from the URI
+ */
+interface ResourceTemplateDefinition<T extends z.ZodObject<any>> {
+  /** RFC 6570 URI template (e.g. 'db://users/{id}') */
+  uriTemplate: string;
+  /** Unique programmatic name of the template */
+  name: string;
+  /** Human-readable display title */
+  title?: string;
+  /** Description of the resources matched by this template */
+  description?: string;
+  /** MIME type shared by all matching resources, if known */
+  mimeType?: string;
+  /** Zod schema for validating the template variables */
+  schema: T;
+  /** Optional callback completing template variables with dynamic values */
+  complete?: ArgumentCompleter<T>;
+  /** Async generator function that yields the contents of a matching resource */
+  handler: (uri: URL, variables: z.infer<T>) => AsyncGenerator<ResourceResponse, void, unknown>;
+}
+
+/**
+ * MCP-formatted result of reading a resource
+ */
+type ReadResourceContents = {
+  contents: Array<ReturnType<ResourceResponse['toResourceContents']>>;
+};
+
+/**
+ * Internal representation of a registered static resource
+ */
+interface RegisteredResource {
+  /** Resource URI */
+  uri: string;
+  /** Programmatic resource name */
+  name: string;
+  /** Display title */
+  title?: string;
+  /** Resource description */
+  description?: string;
+  /** MIME type of the resource contents */
+  mimeType?: string;
+  /** Processed handler that returns MCP-formatted resource contents */
+  handler: (uri: URL) => Promise<ReadResourceContents>;
+}
+
+/**
+ * Internal representation of a registered resource template
+ */
+interface RegisteredResourceTemplate {
+  /** Template name */
+  name: string;
+  /** Parsed URI template used for matching incoming URIs */
+  uriTemplate: UriTemplate;
+  /** Display title */
+  title?: string;
+  /** Template description */
+  description?: string;
+  /** MIME type of matching resources */
+  mimeType?: string;
+  /** Zod validation schema for template variables */
+  schema: z.ZodObject<any>;
+  /** Completes a template variable from the schema and the custom callback */
+  complete: (argName: string, value: string, ctx: CompletionContext) => Promise<string[]>;
+  /** Processed handler that validates variables and returns MCP-formatted resource contents */
+  handler: (uri: URL, variables: Variables) => Promise<ReadResourceContents>;
+}
+
+/**
+ * Prompt definition interface for creating reusable prompt templates
+ * 
+ * @template T - Zod schema type that extends ZodObject for type-safe argument validation
+ */
+interface PromptDefinition<T extends z.ZodObject<any>> {
+  /** Unique identifier for the prompt */
+  name: string;
+  /** Human-readable display title */
+  title?: string;
+  /** Human-readable description of what the prompt is for */
+  description?: string;
+  /** Zod schema describing the prompt arguments */
+  schema: T;
+  /** Optional callback completing prompt arguments with dynamic values */
+  complete?: ArgumentCompleter<T>;
+  /** Async generator yielding prompt messages, or async function returning them */
+  handler: (args: z.infer<T>) => AsyncGenerator<PromptMessage, void, unknown> | Promise<PromptMessage[]>;
+}
+
+/**
+ * MCP-formatted result of getting a prompt
+ */
+type GetPromptContents = {
+  description?: string;
+  messages: Array<ReturnType<PromptMessage['toMCPMessage']>>;
+};
+
+/**
+ * Internal representation of a registered prompt with MCP-compatible handler
+ */
+interface RegisteredPrompt {
+  /** Unique prompt identifier */
+  name: string;
+  /** Display title */
+  title?: string;
+  /** Prompt description for MCP protocol */
+  description?: string;
   /** Zod validation schema */
   schema: z.ZodObject<any>;
-  /** Processed handler that returns MCP-formatted content */
-  handler: (args: unknown) => Promise<{ content: Array<{ type: string; [key: string]: any }> }>;
+  /** Completes a prompt argument from the schema and the custom callback */
+  complete: (argName: string, value: string, ctx: CompletionContext) => Promise<string[]>;
+  /** Processed handler that returns MCP-formatted prompt messages */
+  handler: (args: unknown) => Promise<GetPromptContents>;
 }
 
 /**
@@ -61,6 +333,222 @@ interface MCPAppOptions {
     port?: number;
     /** HTTP endpoint path (defaults to '/mcp') */
     path?: string;
+    /** Serve without sessions, e.g. on serverless platforms (defaults to false) */
+    stateless?: boolean;
+    /** Idle time after which a session expires (defaults to 30 minutes) */
+    sessionIdleTimeoutMs?: number;
+    /** Storage of sent events for resuming SSE streams (defaults to an in-memory store) */
+    eventStore?: EventStore;
+    /** Time to wait for the result of a request answered with JSON instead of SSE (defaults to 5 minutes) */
+    requestTimeoutMs?: number;
+  };
+  /** Maximum number of entries per page of tools/list and the other list methods (defaults to 100) */
+  pageSize?: number;
+  /** Default timeout and concurrency limits for every tool; tool definitions override them */
+  toolDefaults?: ToolLimits;
+  /** Storage of cached tool results and idempotency records */
+  cache?: {
+    /** Cache backend (defaults to an in-memory LRU store of 1000 entries) */
+    store?: CacheStore;
+    /** How long results are remembered for `_meta.idempotencyKey` retries (defaults to 1 hour) */
+    idempotencyTtlMs?: number;
+  };
+}
+
+/**
+ * Converts a Zod validation failure into an MCP InvalidParams error
+ * 
+ * @param error - Zod error raised while parsing client-supplied values
+ * @returns McpError listing every validation issue
+ */
+function toValidationError(error: z.ZodError): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Validation error: ${formatZodIssues(error)}`);
+}
+
+
+/**
+ * Validates a tool's structured result against its declared output schema
+ * 
+ * @param toolName - Name of the tool that produced the result
+ * @param outputSchema - Declared output schema, if any
+ * @param data - Structured object yielded by the tool
+ * @returns The parsed object, or the original object when no schema is declared
+ * @throws {McpError} When the object does not match the output schema
+ */
+function validateOutput(
+  toolName: string,
+  outputSchema: z.ZodObject<any> | undefined,
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!outputSchema) {
+    return data;
+  }
+
+  const result = outputSchema.safeParse(data);
+  if (!result.success) {
+    throw new McpError(ErrorCode.InternalError, `Tool '${toolName}' output validation error: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Creates a promise that rejects once the signal is aborted
+ * 
+ * Racing a generator's `next()` against this promise lets a cancelled call
+ * stop waiting on a handler that is still busy.
+ * 
+ * @param signal - Signal to observe
+ * @returns Promise that never resolves and rejects with the abort reason
+ */
+function whenAborted(signal: AbortSignal): Promise<never> {
+  const aborted = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(signal.reason ?? new Error("Operation aborted"));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+  // Rejection is observed through Promise.race; avoid unhandled rejection reports
+  aborted.catch(() => {});
+  return aborted;
+}
+
+/**
+ * Drains a resource read generator into MCP resource contents
+ * 
+ * @param generator - Generator returned by a resource or template handler
+ * @returns Contents array for a `resources/read` result
+ */
+async function collectResourceContents(
+  generator: AsyncGenerator<ResourceResponse, void, unknown>,
+): Promise<ReadResourceContents> {
+  const contents: ReadResourceContents['contents'] = [];
+  for await (const response of generator) {
+    contents.push(response.toResourceContents());
+  }
+  return { contents };
+}
+
+/**
+ * One page of a list method, with the cursor of the next page if there is one
+ */
+type Page<T> = {
+  items: T[];
+  nextCursor?: string;
+};
+
+/**
+ * Encodes the position after a registry entry into an opaque cursor
+ * 
+ * @param list - List method the cursor belongs to
+ * @param key - Registry key of the last entry on the page
+ * @returns Opaque cursor string
+ */
+function encodeCursor(list: string, key: string): string {
+  return Buffer.from(JSON.stringify({ list, after: key })).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor`
+ * 
+ * @param list - List method the cursor is expected to belong to
+ * @param cursor - Cursor sent by the client
+ * @returns Registry key of the last entry on the previous page
+ * @throws {McpError} When the cursor is malformed or belongs to another list
+ */
+function decodeCursor(list: string, cursor: string): string {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (decoded?.list === list && typeof decoded.after === "string") {
+      return decoded.after;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor for ${list}: ${cursor}`);
+}
+
+/**
+ * Selects one page of registry entries
+ * 
+ * Cursors point after a registry key rather than at an offset, so entries
+ * added or removed elsewhere do not shift pages. A cursor whose entry has
+ * been removed since can no longer be resolved and is rejected.
+ * 
+ * @param list - List method being paginated
+ * @param entries - Registry entries in listing order
+ * @param cursor - Cursor sent by the client, if any
+ * @param pageSize - Maximum number of entries per page
+ * @param include - Filter for entries that should be listed
+ * @returns Page of listed entries
+ * @throws {McpError} When the cursor is invalid or its entry no longer exists
+ */
+function paginate<T>(
+  list: string,
+  entries: Map<string, T>,
+  cursor: string | undefined,
+  pageSize: number,
+  include: (entry: T) => boolean = () => true,
+): Page<T> {
+  const keys = Array.from(entries.keys());
+
+  let start = 0;
+  if (cursor !== undefined) {
+    const index = keys.indexOf(decodeCursor(list, cursor));
+    if (index === -1) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor for ${list} is no longer valid; restart listing without a cursor`);
+    }
+    start = index + 1;
+  }
+
+  const items: T[] = [];
+  let lastKey = "";
+  for (const key of keys.slice(start)) {
+    const entry = entries.get(key)!;
+    if (!include(entry)) {
+      continue;
+    }
+    if (items.length === pageSize) {
+      return { items, nextCursor: encodeCursor(list, lastKey) };
+    }
+    items.push(entry);
+    lastKey = key;
+  }
+
+  return { items };
+}
+
+/**
+ * Maximum number of values returned by a single `completion/complete` response
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Builds the completion function of a prompt or resource template
+ * 
+ * The custom callback is asked first; when it is missing or returns undefined,
+ * the values accepted by the argument's schema are filtered by prefix.
+ * 
+ * @param schema - Zod object schema describing the arguments
+ * @param complete - Optional custom completion callback
+ * @returns Function producing candidate values for an argument
+ */
+function createCompleter<T extends z.ZodObject<any>>(schema: T, complete?: ArgumentCompleter<T>) {
+  return async (argName: string, value: string, ctx: CompletionContext): Promise<string[]> => {
+    const custom = await complete?.(argName as Extract<keyof z.infer<T>, string>, value, ctx);
+    if (custom) {
+      return custom;
+    }
+
+    const field = schema.shape[argName] as z.ZodTypeAny | undefined;
+    if (!field) {
+      return [];
+    }
+
+    const prefix = value.toLowerCase();
+    const candidates = new Set(zodToCompletionValues(field));
+    return Array.from(candidates).filter(candidate => candidate.toLowerCase().startsWith(prefix));
   };
 }
 
@@ -90,7 +578,22 @@ interface MCPAppOptions {
 export class MCPApp {
   private server: Server;
   private tools = new Map<string, RegisteredTool>();
+  private middleware: ToolMiddleware[] = [];
+  /** Tools registered by each mounted group, by namespace */
+  private mounts = new Map<string, Set<RegisteredTool>>();
+  private resources = new Map<string, RegisteredResource>();
+  private resourceTemplates = new Map<string, RegisteredResourceTemplate>();
+  private prompts = new Map<string, RegisteredPrompt>();
+  /** Session IDs subscribed to each resource URI */
+  private resourceSubscriptions = new Map<string, Set<string>>();
+  /** Minimum log level chosen by each session */
+  private logLevels = new Map<string, LoggingLevel>();
+  /** Roots fetched from each session, until the client reports a change */
+  private rootsCache = new Map<string, SharedRootsFetch>();
+  private transport?: StreamableHttpTransport;
   private transportOptions: Required<NonNullable<MCPAppOptions['transport']>>;
+  private pageSize: number;
+  private resultCache: ToolResultCache<ToolResult>;
 
   constructor(private options: MCPAppOptions) {
     this.server = new Server(
@@ -100,8 +603,18 @@ export class MCPApp {
       },
       {
         capabilities: {
-          tools: {},
+          tools: {
+            listChanged: true,
+          },
+          resources: {
+            subscribe: true,
+          },
+          prompts: {},
+          completions: {},
+          logging: {},
         },
+        // Coalesce bursts of registry changes into a single notification
+        debouncedNotificationMethods: ["notifications/tools/list_changed"],
       },
     );
 
@@ -109,8 +622,22 @@ export class MCPApp {
       host: options.transport?.host || 'localhost',
       port: options.transport?.port || 3000,
       path: options.transport?.path || '/mcp',
+      stateless: options.transport?.stateless ?? false,
+      sessionIdleTimeoutMs: options.transport?.sessionIdleTimeoutMs ?? 30 * 60 * 1000,
+      eventStore: options.transport?.eventStore ?? new MemoryEventStore(),
+      requestTimeoutMs: options.transport?.requestTimeoutMs ?? 5 * 60 * 1000,
     };
 
+    this.resultCache = new ToolResultCache(
+      options.cache?.store ?? new MemoryCacheStore(),
+      options.cache?.idempotencyTtlMs ?? 60 * 60 * 1000,
+    );
+
+    this.pageSize = options.pageSize ?? 100;
+    if (!Number.isInteger(this.pageSize) || this.pageSize < 1) {
+      throw new Error(`pageSize must be a positive integer, got ${options.pageSize}`);
+    }
+
     this.setupHandlers();
   }
 
@@ -143,168 +670,1309 @@ export class MCPApp {
    * ```
    */
   createTool<T extends z.ZodObject<any>>(definition: ToolDefinition<T>): MCPApp {
-    // Validate that schema is a Zod object
-    if (!(definition.schema instanceof z.ZodObject)) {
-      throw new Error(`Tool '${definition.name}' schema must be a Zod object (z.object({...}))`);
-    }
-
     // Check for duplicate tool names
     if (this.tools.has(definition.name)) {
       throw new Error(`Tool '${definition.name}' already exists`);
     }
 
-    // Create validated handler that collects generator responses
-    const validatedHandler = async (rawArgs: unknown) => {
-      try {
-        const validatedArgs = definition.schema.parse(rawArgs);
-        const generator = definition.handler(validatedArgs);
-        
-        // Collect all yielded responses
-        const responses: MCPResponse[] = [];
-        for await (const response of generator) {
-          responses.push(response);
-        }
-        
-        // Convert to MCP format
-        const content = responses.map(response => response.toMCPContent());
-        
-        return { content };
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          const issues = error.issues.map(issue => 
-            `${issue.path.join('.')}: ${issue.message}`,
-          ).join(', ');
-          throw new McpError(ErrorCode.InvalidParams, `Validation error: ${issues}`);
-        }
-        throw error;
-      }
-    };
-
-    // Register the tool
-    const registeredTool: RegisteredTool = {
-      name: definition.name,
-      description: definition.description,
-      schema: definition.schema,
-      handler: validatedHandler,
-    };
-
-    this.tools.set(definition.name, registeredTool);
+    this.tools.set(definition.name, this.buildTool(definition));
     
     console.log(`🔧 Registered tool: ${definition.name}`);
+    this.notifyToolListChanged();
     
     // Return this for chaining
     return this;
   }
 
   /**
-   * Retrieves a list of all registered tools formatted for MCP protocol
+   * Replaces an existing tool with a new definition
    * 
-   * @private
-   * @returns Array of tool definitions with MCP-compatible schemas
+   * The tool keeps its name; everything else, including its enabled state,
+   * comes from the new definition. Works while the server is running and
+   * notifies connected clients that the tool list changed.
+   * 
+   * @template T - Zod schema type for tool arguments
+   * @param definition - New tool configuration, matched to the existing tool by name
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When no tool with that name exists or schema is invalid
+   * 
+   * @example
+   * ```typescript
+   * app.updateTool({
+   *   name: 'greet',
+   *   description: 'Greets a user by name, politely',
+   *   schema: z.object({ name: z.string() }),
+   *   handler: async function* (args) {
+   *     yield new TextResponse(`Good day, ${args.name}!`);
+   *   }
+   * });
+   * ```
    */
-  private getToolList() {
-    return Array.from(this.tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description || `Execute ${tool.name} tool`,
-      inputSchema: zodToJsonSchema(tool.schema),
-    }));
+  updateTool<T extends z.ZodObject<any>>(definition: ToolDefinition<T>): MCPApp {
+    const previous = this.tools.get(definition.name);
+    if (!previous) {
+      throw new Error(`Tool '${definition.name}' does not exist`);
+    }
+
+    const tool = this.buildTool(definition);
+    this.tools.set(definition.name, tool);
+    this.replaceMountedTool(previous, tool);
+
+    console.log(`🔧 Updated tool: ${definition.name}`);
+    this.notifyToolListChanged();
+
+    return this;
   }
 
   /**
-   * Executes a registered tool with the provided arguments
+   * Removes a tool from the server
    * 
-   * @private
-   * @param name - Name of the tool to execute
-   * @param args - Arguments to pass to the tool handler
-   * @returns Promise resolving to MCP-formatted tool response
-   * @throws {McpError} When tool is not found or execution fails
+   * Works while the server is running and notifies connected clients that
+   * the tool list changed. Calls already in progress run to completion.
+   * 
+   * @param name - Name of the tool to remove
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When no tool with that name exists
    */
-  private async executeTool(name: string, args: unknown) {
+  removeTool(name: string): MCPApp {
     const tool = this.tools.get(name);
     if (!tool) {
-      throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+      throw new Error(`Tool '${name}' does not exist`);
     }
 
-    try {
-      return await tool.handler(args);
-    } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
-      }
-      
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Tool execution failed: ${error}`,
-      );
-    }
-  }
+    this.tools.delete(name);
+    this.replaceMountedTool(tool);
 
-  /**
-   * Configures MCP protocol request handlers for tool operations
-   * 
-   * Sets up handlers for:
-   * - tools/list: Returns available tools
-   * - tools/call: Executes a specific tool
-   * 
-   * @private
-   */
-  private setupHandlers() {
-    // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: this.getToolList() };
-    });
+    console.log(`🔧 Removed tool: ${name}`);
+    this.notifyToolListChanged();
 
-    // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      return await this.executeTool(name, args);
-    });
+    return this;
   }
 
   /**
-   * Starts the MCP server and begins listening for connections
+   * Reports how many calls of each tool are running and waiting
    * 
-   * Initializes the HTTP transport layer and connects the MCP server.
-   * The server will be accessible at the configured host, port, and path.
+   * Counts restart from zero when a tool is replaced with `updateTool`.
    * 
-   * @returns Promise that resolves when the server is successfully started
-   * @throws {Error} When server fails to start or transport initialization fails
+   * @returns Load of every registered tool, keyed by tool name
    * 
    * @example
    * ```typescript
-   * await app.start();
-   * console.log('MCP server is now running!');
+   * setInterval(() => {
+   *   for (const [name, { inFlight, queued }] of Object.entries(app.getToolStats())) {
+   *     metrics.gauge('tool.in_flight', inFlight, { tool: name });
+   *     metrics.gauge('tool.queued', queued, { tool: name });
+   *   }
+   * }, 10_000);
    * ```
    */
-  async start(): Promise<void> {
-    console.log("🔧 Creating transport...");
-    const transport = new StreamableHttpTransport(this.transportOptions);
-    
-    console.log("🔗 Connecting MCP Server to transport...");
-    await this.server.connect(transport);
-    console.log("✅ MCP Server connected to transport");
-    
-    console.log(`🚀 MCP Server '${this.options.name}' started on http://${this.transportOptions.host}:${this.transportOptions.port}${this.transportOptions.path}`);
-    console.log(`📋 Registered ${this.tools.size} tools: ${Array.from(this.tools.keys()).join(', ')}`);
+  getToolStats(): Record<string, ToolStats> {
+    const stats: Record<string, ToolStats> = {};
+    for (const tool of this.tools.values()) {
+      stats[tool.name] = { inFlight: tool.limiter.inFlight, queued: tool.limiter.queued };
+    }
+    return stats;
   }
 
   /**
-   * Gracefully stops the MCP server and closes all connections
+   * Enables a previously disabled tool, making it listed and callable again
    * 
-   * Shuts down the HTTP transport and closes the MCP server connection.
-   * All active sessions will be terminated cleanly.
+   * @param name - Name of the tool to enable
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When no tool with that name exists
+   */
+  enableTool(name: string): MCPApp {
+    return this.setToolEnabled(name, true);
+  }
+
+  /**
+   * Disables a tool without removing it
    * 
-   * @returns Promise that resolves when the server is fully stopped
-   * @throws {Error} When server shutdown encounters an error
+   * Disabled tools are left out of tools/list and calls to them are rejected
+   * until the tool is enabled again.
    * 
-   * @example
-   * ```typescript
-   * await app.stop();
-   * console.log('MCP server has been stopped');
-   * ```
+   * @param name - Name of the tool to disable
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When no tool with that name exists
+   */
+  disableTool(name: string): MCPApp {
+    return this.setToolEnabled(name, false);
+  }
+
+  /**
+   * Toggles a tool's enabled state and announces the change when it differs
+   * 
+   * @private
+   * @param name - Name of the tool to toggle
+   * @param enabled - New enabled state
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When no tool with that name exists
+   */
+  private setToolEnabled(name: string, enabled: boolean): MCPApp {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Tool '${name}' does not exist`);
+    }
+
+    if (tool.enabled !== enabled) {
+      tool.enabled = enabled;
+      console.log(`🔧 ${enabled ? 'Enabled' : 'Disabled'} tool: ${name}`);
+      this.notifyToolListChanged();
+    }
+
+    return this;
+  }
+
+  /**
+   * Notifies connected clients that the tool registry changed
+   * 
+   * Does nothing before the server is started. Notifications raised in the
+   * same tick are coalesced by the MCP server, so bulk registration results
+   * in a single `notifications/tools/list_changed` message.
+   * 
+   * @private
+   */
+  private notifyToolListChanged() {
+    if (!this.transport) {
+      return;
+    }
+
+    this.server.sendToolListChanged().catch((error) => {
+      console.error("❌ Failed to send tool list change notification:", error);
+    });
+  }
+
+  /**
+   * Validates a tool definition and converts it into its registered form
+   * 
+   * @private
+   * @template T - Zod schema type for tool arguments
+   * @param definition - Tool configuration including name, schema, and handler
+   * @returns Registered tool with a validated, MCP-compatible handler
+   * @throws {Error} When the input or output schema is not a Zod object
+   */
+  private buildTool<T extends z.ZodObject<any>>(definition: ToolDefinition<T>): RegisteredTool {
+    // Validate that schema is a Zod object
+    if (!(definition.schema instanceof z.ZodObject)) {
+      throw new Error(`Tool '${definition.name}' schema must be a Zod object (z.object({...}))`);
+    }
+
+    // Structured output must also be described by a Zod object
+    if (definition.outputSchema && !(definition.outputSchema instanceof z.ZodObject)) {
+      throw new Error(`Tool '${definition.name}' outputSchema must be a Zod object (z.object({...}))`);
+    }
+
+    const defaults = this.options.toolDefaults;
+    const timeoutMs = definition.timeoutMs ?? defaults?.timeoutMs;
+    const maxConcurrency = definition.maxConcurrency ?? defaults?.maxConcurrency;
+    if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+      throw new Error(`Tool '${definition.name}' timeoutMs must be a positive number, got ${timeoutMs}`);
+    }
+    if (maxConcurrency !== undefined && !(Number.isInteger(maxConcurrency) && maxConcurrency > 0)) {
+      throw new Error(`Tool '${definition.name}' maxConcurrency must be a positive integer, got ${maxConcurrency}`);
+    }
+    if (definition.cache && !(definition.cache.ttlMs > 0)) {
+      throw new Error(`Tool '${definition.name}' cache.ttlMs must be a positive number, got ${definition.cache.ttlMs}`);
+    }
+
+    // Create validated handler that streams notifications and collects content
+    const validatedHandler = async (rawArgs: unknown, ctx: ToolContext) => {
+      let cacheKeys: ToolCallCacheKeys | undefined;
+      try {
+        const validatedArgs = definition.schema.parse(rawArgs);
+        cacheKeys = this.getCacheKeys(definition, validatedArgs, ctx);
+
+        // Stored results replace the handler only, so middleware still runs on hits
+        let replayed: ToolResult | undefined;
+        const resultCache = this.resultCache;
+        const keys = cacheKeys;
+        const handler = async function* (call: ToolCall<z.infer<T>>): ToolResponseStream {
+          replayed = keys ? await resultCache.lookup(keys) : undefined;
+          if (!replayed) {
+            yield* definition.handler(call.args, call.ctx);
+          }
+        };
+
+        // App-level middleware wraps tool-level middleware, which wraps the handler
+        const run = composeMiddleware<z.infer<T>>(
+          [...this.middleware, ...(definition.middleware ?? [])],
+          handler,
+        );
+        const generator = run({ name: definition.name, args: validatedArgs, ctx });
+        const progressToken = ctx.meta?.progressToken;
+        const aborted = whenAborted(ctx.signal);
+        
+        // Deliver progress and log responses immediately, collect the rest
+        const content: ToolResult['content'] = [];
+        let structuredContent: ToolResult['structuredContent'];
+        let isError = false;
+        try {
+          while (true) {
+            const next = await Promise.race([generator.next(), aborted]);
+            if (next.done) {
+              break;
+            }
+
+            const response = next.value;
+            if (response instanceof ProgressResponse) {
+              if (progressToken !== undefined) {
+                await ctx.notify({
+                  method: "notifications/progress",
+                  params: response.toProgressNotification(progressToken),
+                });
+              }
+            } else if (response instanceof LogResponse) {
+              const { level, data } = response.toLoggingNotification();
+              await ctx.log(level, data);
+            } else if (response instanceof StructuredResponse) {
+              if (structuredContent !== undefined) {
+                throw new McpError(ErrorCode.InternalError, `Tool '${definition.name}' yielded more than one structured response`);
+              }
+              structuredContent = validateOutput(definition.name, definition.outputSchema, response.data);
+              content.push(response.toMCPContent());
+            } else if (response instanceof ErrorResponse) {
+              isError = true;
+              content.push(response.toMCPContent());
+            } else {
+              content.push(response.toMCPContent());
+            }
+          }
+        } finally {
+          // Close the handler so its finally blocks run; the response is suppressed
+          if (ctx.signal.aborted) {
+            generator.return(undefined).catch(() => {});
+          }
+        }
+
+        if (replayed) {
+          return replayed;
+        }
+
+        let result: ToolResult;
+        if (isError) {
+          result = { content, isError };
+        } else if (definition.outputSchema && structuredContent === undefined) {
+          throw new McpError(ErrorCode.InternalError, `Tool '${definition.name}' declares an outputSchema but yielded no structured response`);
+        } else {
+          result = structuredContent === undefined ? { content } : { content, structuredContent };
+        }
+
+        if (cacheKeys) {
+          await this.resultCache.save(cacheKeys, result, !isError);
+        }
+        return result;
+      } catch (error) {
+        if (cacheKeys) {
+          this.resultCache.abandon(cacheKeys);
+        }
+        if (error instanceof z.ZodError) {
+          throw toValidationError(error);
+        }
+        throw error;
+      }
+    };
+
+    return {
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      annotations: definition.annotations,
+      icons: definition.icons,
+      _meta: definition._meta,
+      hidden: definition.hidden ?? false,
+      deprecated: definition.deprecated,
+      enabled: definition.enabled ?? true,
+      inputSchema: zodToJsonSchema(definition.schema),
+      outputSchema: definition.outputSchema ? zodToJsonSchema(definition.outputSchema) : undefined,
+      handler: validatedHandler,
+      timeoutMs,
+      limiter: new ConcurrencyLimiter(
+        definition.name,
+        maxConcurrency,
+        definition.concurrencyPolicy ?? defaults?.concurrencyPolicy,
+      ),
+    };
+  }
+
+  /**
+   * Determines under which keys a tool call's result is looked up and stored
+   * 
+   * Idempotency records are scoped to the calling session, so one client
+   * cannot replay another client's results by guessing its keys. Requests
+   * without a session have no such scope, so their idempotency keys are ignored.
+   * 
+   * @private
+   * @param definition - Definition of the called tool
+   * @param args - Validated arguments of the call
+   * @param ctx - Execution context of the call
+   * @returns Cache keys, or undefined when neither caching nor an idempotency key applies
+   */
+  private getCacheKeys<T extends z.ZodObject<any>>(
+    definition: ToolDefinition<T>,
+    args: z.infer<T>,
+    ctx: ToolContext,
+  ): ToolCallCacheKeys | undefined {
+    const idempotencyKey = ctx.sessionId !== undefined ? ctx.meta?.idempotencyKey : undefined;
+    if (!definition.cache && typeof idempotencyKey !== "string") {
+      return undefined;
+    }
+
+    const fingerprint = canonicalJson(args);
+    return {
+      resultKey: definition.cache && `tool:${definition.name}:${definition.cache.key?.(args, ctx) ?? fingerprint}`,
+      ttlMs: definition.cache?.ttlMs,
+      idempotencyKey: typeof idempotencyKey === "string"
+        ? `idempotency:${ctx.sessionId}:${definition.name}:${idempotencyKey}`
+        : undefined,
+      fingerprint,
+    };
+  }
+
+  /**
+   * Adds middleware that runs around every tool call
+   * 
+   * Middleware receives the tool name, validated arguments and context, and
+   * forms an onion around the handler: middleware added first is the
+   * outermost layer. App-level middleware always wraps a tool's own
+   * `middleware` list. Middleware added after a tool was created still
+   * applies to it.
+   * 
+   * @param middleware - Middleware to append to the app-level chain
+   * @returns This MCPApp instance for method chaining
+   * 
+   * @example
+   * ```typescript
+   * app.use(async function* (call, next) {
+   *   call.ctx.logger.info(`Calling ${call.name}`, call.args);
+   *   yield* next();
+   * });
+   * ```
+   */
+  use(middleware: ToolMiddleware): MCPApp {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers the tools of a group under a namespace
+   * 
+   * Each tool is registered as `<namespace><separator><name>`. Mounting is
+   * all-or-nothing: if any namespaced name is already taken, no tool of the
+   * group is registered.
+   * 
+   * @param namespace - Namespace for the group's tools (e.g. 'github')
+   * @param group - Group of tools to mount
+   * @param options - Name separator and description prefix
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When the namespace is already mounted or a tool name collides
+   * 
+   * @example
+   * ```typescript
+   * app.mount('github', githubTools);                     // github_create_issue
+   * app.mount('jira', jiraTools, { separator: '.' });     // jira.create_issue
+   * ```
+   */
+  mount(namespace: string, group: ToolGroup, options?: MountOptions): MCPApp {
+    if (this.mounts.has(namespace)) {
+      throw new Error(`Namespace '${namespace}' is already mounted`);
+    }
+
+    const definitions = group.toDefinitions(namespace, options);
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Cannot mount '${namespace}': tool '${definition.name}' already exists`);
+      }
+    }
+
+    // Build every tool before registering any, so invalid definitions leave the app untouched
+    const tools = definitions.map(definition => this.buildTool(definition));
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+    this.mounts.set(namespace, new Set(tools));
+
+    console.log(`📦 Mounted ${tools.length} tools under '${namespace}': ${tools.map(tool => tool.name).join(', ')}`);
+    this.notifyToolListChanged();
+
+    return this;
+  }
+
+  /**
+   * Removes every tool a mounted group registered
+   * 
+   * Tools of the group that were replaced with `updateTool` are removed too;
+   * tools removed with `removeTool`, and tools registered later under a
+   * freed name, are left alone. Calls already in progress finish normally.
+   * 
+   * @param namespace - Namespace the group was mounted under
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When nothing is mounted under the namespace
+   */
+  unmount(namespace: string): MCPApp {
+    const tools = this.mounts.get(namespace);
+    if (!tools) {
+      throw new Error(`Namespace '${namespace}' is not mounted`);
+    }
+
+    for (const tool of tools) {
+      if (this.tools.get(tool.name) === tool) {
+        this.tools.delete(tool.name);
+      }
+    }
+    this.mounts.delete(namespace);
+
+    console.log(`📦 Unmounted '${namespace}'`);
+    this.notifyToolListChanged();
+
+    return this;
+  }
+
+  /**
+   * Keeps mounted groups in step with a tool that was replaced or removed
+   * 
+   * @private
+   * @param previous - Tool that is no longer registered
+   * @param next - Tool registered in its place, if any
+   */
+  private replaceMountedTool(previous: RegisteredTool, next?: RegisteredTool): void {
+    for (const tools of this.mounts.values()) {
+      if (tools.delete(previous) && next) {
+        tools.add(next);
+      }
+    }
+  }
+
+  /**
+   * Creates and registers a static resource with the MCP server
+   * 
+   * Resources expose data such as files, database rows or configuration to
+   * models. The handler runs every time a client reads the resource URI.
+   * 
+   * @param definition - Resource configuration including URI, name, and handler
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When a resource with the same URI already exists
+   * 
+   * @example
+   * ```typescript
+   * app.createResource({
+   *   uri: 'config://app',
+   *   name: 'app-config',
+   *   mimeType: 'application/json',
+   *   handler: async function* (uri) {
+   *     yield new ResourceResponse(uri.href, JSON.stringify(config), { mimeType: 'application/json' });
+   *   }
+   * });
+   * ```
+   */
+  createResource(definition: ResourceDefinition): MCPApp {
+    // Check for duplicate resource URIs
+    if (this.resources.has(definition.uri)) {
+      throw new Error(`Resource '${definition.uri}' already exists`);
+    }
+
+    const registeredResource: RegisteredResource = {
+      uri: definition.uri,
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      mimeType: definition.mimeType,
+      handler: (uri) => collectResourceContents(definition.handler(uri)),
+    };
+
+    this.resources.set(definition.uri, registeredResource);
+
+    console.log(`📄 Registered resource: ${definition.uri}`);
+
+    return this;
+  }
+
+  /**
+   * Creates and registers a resource template with the MCP server
+   * 
+   * Templates describe a family of resources through an RFC 6570 URI template.
+   * Variables extracted from a matching URI are validated against the Zod schema
+   * before being passed to the handler.
+   * 
+   * @template T - Zod schema type for the template variables
+   * @param definition - Template configuration including URI template, schema, and handler
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When the template name already exists or the schema does not match the template
+   * 
+   * @example
+   * ```typescript
+   * app.createResourceTemplate({
+   *   uriTemplate: 'db://users/{id}',
+   *   name: 'user',
+   *   schema: z.object({ id: z.coerce.number().int() }),
+   *   handler: async function* (uri, { id }) {
+   *     const user = await db.users.find(id);
+   *     yield new ResourceResponse(uri.href, JSON.stringify(user), { mimeType: 'application/json' });
+   *   }
+   * });
+   * ```
+   */
+  createResourceTemplate<T extends z.ZodObject<any>>(definition: ResourceTemplateDefinition<T>): MCPApp {
+    // Validate that schema is a Zod object
+    if (!(definition.schema instanceof z.ZodObject)) {
+      throw new Error(`Resource template '${definition.name}' schema must be a Zod object (z.object({...}))`);
+    }
+
+    // Check for duplicate template names
+    if (this.resourceTemplates.has(definition.name)) {
+      throw new Error(`Resource template '${definition.name}' already exists`);
+    }
+
+    const uriTemplate = new UriTemplate(definition.uriTemplate);
+
+    // Every schema key must be a variable of the URI template
+    const variableNames = uriTemplate.variableNames;
+    for (const key of Object.keys(definition.schema.shape)) {
+      if (!variableNames.includes(key)) {
+        throw new Error(`Resource template '${definition.name}' schema key '${key}' is not a variable of '${definition.uriTemplate}'`);
+      }
+    }
+
+    // Create validated handler that parses template variables
+    const validatedHandler = async (uri: URL, variables: Variables) => {
+      try {
+        const validatedVariables = definition.schema.parse(variables);
+        return await collectResourceContents(definition.handler(uri, validatedVariables));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw toValidationError(error);
+        }
+        throw error;
+      }
+    };
+
+    const registeredTemplate: RegisteredResourceTemplate = {
+      name: definition.name,
+      uriTemplate,
+      title: definition.title,
+      description: definition.description,
+      mimeType: definition.mimeType,
+      schema: definition.schema,
+      complete: createCompleter(definition.schema, definition.complete),
+      handler: validatedHandler,
+    };
+
+    this.resourceTemplates.set(definition.name, registeredTemplate);
+
+    console.log(`📄 Registered resource template: ${definition.uriTemplate}`);
+
+    return this;
+  }
+
+  /**
+   * Creates and registers a reusable prompt template with the MCP server
+   * 
+   * The Zod object schema becomes the prompt's argument list, and the handler
+   * produces the user/assistant messages returned to the client.
+   * 
+   * @template T - Zod schema type for prompt arguments
+   * @param definition - Prompt configuration including name, schema, and handler
+   * @returns This MCPApp instance for method chaining
+   * @throws {Error} When prompt name already exists or schema is invalid
+   * 
+   * @example
+   * ```typescript
+   * app.createPrompt({
+   *   name: 'review-code',
+   *   description: 'Asks the model to review a piece of code',
+   *   schema: z.object({ code: z.string().describe('Code to review') }),
+   *   handler: async function* ({ code }) {
+   *     yield new PromptMessage('user', new TextResponse(`Please review this code:\n${code}`));
+   *   }
+   * });
+   * ```
+   */
+  createPrompt<T extends z.ZodObject<any>>(definition: PromptDefinition<T>): MCPApp {
+    // Validate that schema is a Zod object
+    if (!(definition.schema instanceof z.ZodObject)) {
+      throw new Error(`Prompt '${definition.name}' schema must be a Zod object (z.object({...}))`);
+    }
+
+    // Check for duplicate prompt names
+    if (this.prompts.has(definition.name)) {
+      throw new Error(`Prompt '${definition.name}' already exists`);
+    }
+
+    // Create validated handler that collects prompt messages
+    const validatedHandler = async (rawArgs: unknown) => {
+      try {
+        const validatedArgs = definition.schema.parse(rawArgs ?? {});
+        const result = definition.handler(validatedArgs);
+
+        // Accept both yielded and returned messages
+        const messages: PromptMessage[] = [];
+        if (Symbol.asyncIterator in result) {
+          for await (const message of result) {
+            messages.push(message);
+          }
+        } else {
+          messages.push(...await result);
+        }
+
+        return {
+          description: definition.description,
+          messages: messages.map(message => message.toMCPMessage()),
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw toValidationError(error);
+        }
+        throw error;
+      }
+    };
+
+    const registeredPrompt: RegisteredPrompt = {
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      schema: definition.schema,
+      complete: createCompleter(definition.schema, definition.complete),
+      handler: validatedHandler,
+    };
+
+    this.prompts.set(definition.name, registeredPrompt);
+
+    console.log(`💬 Registered prompt: ${definition.name}`);
+
+    return this;
+  }
+
+  /**
+   * Retrieves one page of the listed tools formatted for MCP protocol
+   * 
+   * Hidden and deprecated tools are left out but remain callable;
+   * disabled tools are left out and cannot be called.
+   * 
+   * @private
+   * @param cursor - Cursor returned with the previous page, if any
+   * @returns Tool definitions with MCP-compatible schemas and the next cursor
+   * @throws {McpError} When the cursor is invalid
+   */
+  private getToolList(cursor?: string) {
+    const page = paginate("tools/list", this.tools, cursor, this.pageSize,
+      tool => tool.enabled && !tool.hidden && !tool.deprecated);
+
+    return {
+      tools: page.items.map(tool => ({
+        name: tool.name,
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+        annotations: tool.annotations,
+        icons: tool.icons,
+        _meta: tool._meta,
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Executes a registered tool with the provided arguments
+   * 
+   * @private
+   * @param name - Name of the tool to execute
+   * @param args - Arguments to pass to the tool handler
+   * @param extra - Extra request data from the MCP SDK, used to build the tool context
+   * @returns Promise resolving to MCP-formatted tool response, with `isError` set for tool-level failures
+   * @throws {McpError} When tool is not found, arguments are invalid, the caller is unauthorized,
+   * the call times out, or execution fails unexpectedly
+   */
+  private async executeTool(name: string, args: unknown, extra: RequestExtra) {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+    }
+
+    if (!tool.enabled) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool disabled: ${name}`);
+    }
+
+    if (tool.deprecated) {
+      const notice = typeof tool.deprecated === 'string' ? `: ${tool.deprecated}` : '';
+      console.warn(`⚠️ Deprecated tool called: ${name}${notice}`);
+    }
+
+    // Abort the handler when it runs past its deadline, as if the client had cancelled
+    const deadline = tool.timeoutMs !== undefined ? AbortSignal.timeout(tool.timeoutMs) : undefined;
+    const deadlineAt = Date.now() + (tool.timeoutMs ?? Infinity);
+    const signal = anySignal([extra.signal, deadline]);
+    const timeoutError = () => new McpError(ErrorCode.RequestTimeout, `Tool '${name}' timed out after ${tool.timeoutMs}ms`);
+    let release: (() => void) | undefined;
+
+    try {
+      // Time spent waiting for a slot counts towards the deadline, and a call
+      // whose deadline passed in the queue never starts its handler
+      release = await tool.limiter.acquire(signal);
+      if (Date.now() >= deadlineAt) {
+        throw timeoutError();
+      }
+      signal.throwIfAborted();
+      // Show handlers the ID the client chose, not the one the transport dispatched the request under
+      const requestId = this.transport?.getClientRequestId(extra.requestId) ?? extra.requestId;
+      return await tool.handler(args, createToolContext(name, { ...extra, signal, requestId }, this.getSessionInfo(extra)));
+    } catch (error) {
+      if (deadline?.aborted && !extra.signal.aborted) {
+        throw timeoutError();
+      }
+
+      // The client cancelled or went away: no response will be sent, and the call did not fail
+      if (extra.signal.aborted) {
+        throw error;
+      }
+
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      if (error instanceof InvalidArgumentsError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      if (error instanceof UnauthorizedError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+
+      // Other tool errors are failures the model should see and can react to
+      if (error instanceof ToolError) {
+        return {
+          content: [new ErrorResponse(error.message, error.code).toMCPContent()],
+          isError: true,
+        };
+      }
+
+      // Unexpected errors may carry internals, so details stay in the server log
+      console.error(`❌ Tool '${name}' failed:`, error);
+      throw new McpError(ErrorCode.InternalError, `Internal error in tool '${name}'`);
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * Retrieves one page of the static resources formatted for MCP protocol
+   * 
+   * @private
+   * @param cursor - Cursor returned with the previous page, if any
+   * @returns Resource descriptors and the next cursor
+   * @throws {McpError} When the cursor is invalid
+   */
+  private getResourceList(cursor?: string) {
+    const page = paginate("resources/list", this.resources, cursor, this.pageSize);
+
+    return {
+      resources: page.items.map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Retrieves one page of the resource templates formatted for MCP protocol
+   * 
+   * @private
+   * @param cursor - Cursor returned with the previous page, if any
+   * @returns Resource template descriptors and the next cursor
+   * @throws {McpError} When the cursor is invalid
+   */
+  private getResourceTemplateList(cursor?: string) {
+    const page = paginate("resources/templates/list", this.resourceTemplates, cursor, this.pageSize);
+
+    return {
+      resourceTemplates: page.items.map(template => ({
+        uriTemplate: template.uriTemplate.toString(),
+        name: template.name,
+        title: template.title,
+        description: template.description,
+        mimeType: template.mimeType,
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Reads a resource by URI, trying static resources before templates
+   * 
+   * Templates are matched in registration order; the first template whose
+   * pattern matches the URI handles the read.
+   * 
+   * @private
+   * @param uri - URI of the resource to read
+   * @returns Promise resolving to MCP-formatted resource contents
+   * @throws {McpError} When the URI is invalid, no resource matches, or the read fails
+   */
+  private async readResource(uri: string) {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+
+    try {
+      const resource = this.resources.get(uri);
+      if (resource) {
+        return await resource.handler(url);
+      }
+
+      for (const template of this.resourceTemplates.values()) {
+        const variables = template.uriTemplate.match(uri);
+        if (variables) {
+          return await template.handler(url, variables);
+        }
+      }
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Resource read failed: ${error}`,
+      );
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+
+  /**
+   * Retrieves one page of the registered prompts formatted for MCP protocol
+   * 
+   * @private
+   * @param cursor - Cursor returned with the previous page, if any
+   * @returns Prompt descriptors with their argument lists and the next cursor
+   * @throws {McpError} When the cursor is invalid
+   */
+  private getPromptList(cursor?: string) {
+    const page = paginate("prompts/list", this.prompts, cursor, this.pageSize);
+
+    return {
+      prompts: page.items.map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: zodToPromptArguments(prompt.schema),
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Renders a registered prompt with the provided arguments
+   * 
+   * @private
+   * @param name - Name of the prompt to render
+   * @param args - Arguments to pass to the prompt handler
+   * @returns Promise resolving to MCP-formatted prompt messages
+   * @throws {McpError} When prompt is not found or rendering fails
+   */
+  private async getPrompt(name: string, args: unknown) {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+    }
+
+    try {
+      return await prompt.handler(args);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Prompt execution failed: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Suggests values for an argument of a prompt or resource template
+   * 
+   * Returns at most 100 values; `total` and `hasMore` tell the client when
+   * more candidates exist than were sent.
+   * 
+   * @private
+   * @param params - Parameters of the `completion/complete` request
+   * @param extra - Extra request data passed to MCP request handlers
+   * @returns Promise resolving to the MCP completion result
+   * @throws {McpError} When the referenced prompt or template does not exist, or completion fails
+   */
+  private async completeArgument(params: CompleteRequest['params'], extra: RequestExtra) {
+    const { ref, argument, context } = params;
+
+    let complete: RegisteredPrompt['complete'] | undefined;
+    if (ref.type === "ref/prompt") {
+      complete = this.prompts.get(ref.name)?.complete;
+      if (!complete) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${ref.name}`);
+      }
+    } else {
+      const template = Array.from(this.resourceTemplates.values())
+        .find(template => template.uriTemplate.toString() === ref.uri);
+      if (!template && !this.resources.has(ref.uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource template not found: ${ref.uri}`);
+      }
+      complete = template?.complete;
+    }
+
+    let values: string[] = [];
+    try {
+      if (complete) {
+        values = await complete(argument.name, argument.value, {
+          arguments: context?.arguments ?? {},
+          sessionId: getSessionId(extra),
+          signal: extra.signal,
+          authInfo: extra.authInfo,
+        });
+      }
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Completion failed: ${error}`,
+      );
+    }
+
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      },
+    };
+  }
+
+  /**
+   * Checks whether a URI is served by a static resource or a resource template
+   * 
+   * @private
+   * @param uri - URI to look up
+   * @returns True if reading the URI would reach a registered handler
+   */
+  private hasResource(uri: string): boolean {
+    if (this.resources.has(uri)) {
+      return true;
+    }
+
+    for (const template of this.resourceTemplates.values()) {
+      if (template.uriTemplate.match(uri)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Subscribes a session to update notifications for a resource
+   * 
+   * @private
+   * @param uri - URI of the resource to watch
+   * @param sessionId - Session requesting the subscription
+   * @throws {McpError} When the request has no session or the resource does not exist
+   */
+  private subscribeToResource(uri: string, sessionId: string | undefined) {
+    if (!sessionId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Resource subscriptions require an Mcp-Session-Id header');
+    }
+
+    if (!this.hasResource(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    let subscribers = this.resourceSubscriptions.get(uri);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.resourceSubscriptions.set(uri, subscribers);
+    }
+    subscribers.add(sessionId);
+  }
+
+  /**
+   * Removes a session's subscription to a resource
+   * 
+   * @private
+   * @param uri - URI of the watched resource
+   * @param sessionId - Session cancelling the subscription
+   */
+  private unsubscribeFromResource(uri: string, sessionId: string | undefined) {
+    const subscribers = this.resourceSubscriptions.get(uri);
+    if (!subscribers || !sessionId) {
+      return;
+    }
+
+    subscribers.delete(sessionId);
+    if (subscribers.size === 0) {
+      this.resourceSubscriptions.delete(uri);
+    }
+  }
+
+  /**
+   * Drops every resource subscription held by a closed session
+   * 
+   * @private
+   * @param sessionId - Session whose stream ended
+   */
+  private removeSessionSubscriptions(sessionId: string) {
+    for (const uri of Array.from(this.resourceSubscriptions.keys())) {
+      this.unsubscribeFromResource(uri, sessionId);
+    }
+  }
+
+  /**
+   * Drops a session's cached roots, cancelling the fetch if it is still running
+   * 
+   * Calls waiting on a cancelled fetch start a new one unless their own
+   * request was cancelled too.
+   * 
+   * @private
+   * @param sessionId - Session whose roots are stale or that closed
+   */
+  private forgetRoots(sessionId: string) {
+    this.rootsCache.get(sessionId)?.controller.abort();
+    this.rootsCache.delete(sessionId);
+  }
+
+  /**
+   * Collects what is known about the session that issued a request
+   * 
+   * Capabilities are only known for sessions the transport tracks; without
+   * them (e.g. in stateless mode) every optional client feature counts as
+   * unsupported.
+   * 
+   * @private
+   * @param extra - Extra request data passed to MCP request handlers
+   * @returns Client capabilities, log level and roots cache of the calling session
+   */
+  private getSessionInfo(extra: RequestExtra): SessionInfo {
+    const sessionId = getSessionId(extra);
+    return {
+      clientCapabilities: sessionId ? this.transport?.getClientCapabilities(sessionId) : undefined,
+      logLevel: sessionId ? this.logLevels.get(sessionId) : undefined,
+      rootsCache: this.rootsCache,
+    };
+  }
+
+  /**
+   * Configures MCP protocol request handlers for tool, resource, prompt, completion and logging operations
+   * 
+   * Sets up handlers for:
+   * - tools/list: Returns a page of available tools
+   * - tools/call: Executes a specific tool
+   * - resources/list: Returns a page of available static resources
+   * - resources/templates/list: Returns a page of available resource templates
+   * - resources/read: Reads a resource by URI
+   * - resources/subscribe: Subscribes the calling session to resource updates
+   * - resources/unsubscribe: Cancels a resource subscription
+   * - prompts/list: Returns a page of available prompts
+   * - prompts/get: Renders a specific prompt
+   * - completion/complete: Suggests values for prompt and resource template arguments
+   * - logging/setLevel: Sets the calling session's minimum log level
+   * 
+   * @private
+   */
+  private setupHandlers() {
+    // List tools handler
+    this.server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      return this.getToolList(request.params?.cursor);
+    });
+
+    // Call tool handler
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      return await this.executeTool(name, args, extra);
+    });
+
+    // List resources handler
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.getResourceList(request.params?.cursor);
+    });
+
+    // List resource templates handler
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
+      return this.getResourceTemplateList(request.params?.cursor);
+    });
+
+    // Read resource handler
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await this.readResource(request.params.uri);
+    });
+
+    // Subscribe to resource handler
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      this.subscribeToResource(request.params.uri, getSessionId(extra));
+      return {};
+    });
+
+    // Unsubscribe from resource handler
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+      this.unsubscribeFromResource(request.params.uri, getSessionId(extra));
+      return {};
+    });
+
+    // List prompts handler
+    this.server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      return this.getPromptList(request.params?.cursor);
+    });
+
+    // Get prompt handler
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return await this.getPrompt(name, args);
+    });
+
+    // Argument completion handler
+    this.server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+      return await this.completeArgument(request.params, extra);
+    });
+
+    // Set log level handler (replaces the SDK default to track levels per session)
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+      const sessionId = getSessionId(extra);
+      // Without a session, the level could only be shared by every client, so it is not kept
+      if (sessionId) {
+        this.logLevels.set(sessionId, request.params.level);
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Notifies subscribed clients that a resource has changed
+   * 
+   * Sends `notifications/resources/updated` only to the sessions that
+   * subscribed to the given URI; other clients are never told about it.
+   * 
+   * @param uri - URI of the resource that changed
+   * @returns Promise that resolves once the notification has been queued on every subscribed stream
+   * 
+   * @example
+   * ```typescript
+   * await db.users.update(42, changes);
+   * await app.notifyResourceUpdated('db://users/42');
+   * ```
+   */
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    const subscribers = this.resourceSubscriptions.get(uri);
+    if (!subscribers || !this.transport) {
+      return;
+    }
+
+    for (const sessionId of subscribers) {
+      await this.transport.sendToSession(sessionId, {
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri },
+      });
+    }
+  }
+
+  /**
+   * Sends a log message to every connected client
+   * 
+   * Emits `notifications/message` to each session whose level, set through
+   * `logging/setLevel`, admits the message. Sessions that never chose a level
+   * receive every message. Inside tool handlers, prefer `ctx.log`, which only
+   * reaches the calling client.
+   * 
+   * @param level - RFC 5424 severity of the message
+   * @param data - Message or JSON-serializable data to log
+   * @param logger - Optional logger name
+   * @returns Promise that resolves once the message has been queued on every eligible stream
+   * 
+   * @example
+   * ```typescript
+   * await app.log('warning', 'Upstream API is rate limiting requests', 'github');
+   * ```
+   */
+  async log(level: LoggingLevel, data: unknown, logger?: string): Promise<void> {
+    if (!this.transport) {
+      return;
+    }
+
+    for (const sessionId of this.transport.getSessionIds()) {
+      if (isLogLevelEnabled(level, this.logLevels.get(sessionId))) {
+        await this.transport.sendToSession(sessionId, {
+          jsonrpc: "2.0",
+          method: "notifications/message",
+          params: { level, logger, data },
+        });
+      }
+    }
+  }
+
+  /**
+   * Starts the MCP server and begins listening for connections
+   * 
+   * Initializes the HTTP transport layer and connects the MCP server.
+   * The server will be accessible at the configured host, port, and path.
+   * 
+   * @returns Promise that resolves when the server is successfully started
+   * @throws {Error} When server fails to start or transport initialization fails
+   * 
+   * @example
+   * ```typescript
+   * await app.start();
+   * console.log('MCP server is now running!');
+   * ```
+   */
+  async start(): Promise<void> {
+    console.log("🔧 Creating transport...");
+    const transport = new StreamableHttpTransport(this.transportOptions);
+    transport.onsessionclosed = (sessionId) => {
+      this.removeSessionSubscriptions(sessionId);
+      this.logLevels.delete(sessionId);
+      this.forgetRoots(sessionId);
+    };
+    transport.onrootslistchanged = (sessionId) => this.forgetRoots(sessionId);
+    this.transport = transport;
+    
+    console.log("🔗 Connecting MCP Server to transport...");
+    await this.server.connect(transport);
+    console.log("✅ MCP Server connected to transport");
+    
+    console.log(`🚀 MCP Server '${this.options.name}' started on http://${this.transportOptions.host}:${this.transportOptions.port}${this.transportOptions.path}`);
+    console.log(`📋 Registered ${this.tools.size} tools: ${Array.from(this.tools.keys()).join(', ')}`);
+    console.log(`📋 Registered ${this.resources.size} resources and ${this.resourceTemplates.size} resource templates`);
+    console.log(`📋 Registered ${this.prompts.size} prompts: ${Array.from(this.prompts.keys()).join(', ')}`);
+  }
+
+  /**
+   * Gracefully stops the MCP server and closes all connections
+   * 
+   * Shuts down the HTTP transport and closes the MCP server connection.
+   * All active sessions will be terminated cleanly.
+   * 
+   * @returns Promise that resolves when the server is fully stopped
+   * @throws {Error} When server shutdown encounters an error
+   * 
+   * @example
+   * ```typescript
+   * await app.stop();
+   * console.log('MCP server has been stopped');
+   * ```
    */
   async stop(): Promise<void> {
     await this.server.close();
+    this.transport = undefined;
+    this.resourceSubscriptions.clear();
+    this.logLevels.clear();
+    for (const sessionId of Array.from(this.rootsCache.keys())) {
+      this.forgetRoots(sessionId);
+    }
     console.log(`🛑 MCP Server '${this.options.name}' stopped`);
   }
 }
\ No newline at end of file
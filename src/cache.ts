@@ -0,0 +1,211 @@
+import { InvalidArgumentsError } from "./errors.js";
+
+/**
+ * Storage backend for cached tool results
+ * 
+ * Values are plain JSON-serializable objects, so implementations may keep
+ * them in memory or in an external store such as Redis. Both methods may be
+ * synchronous or return promises.
+ * 
+ * @example
+ * ```typescript
+ * const redisStore: CacheStore = {
+ *   get: async (key) => JSON.parse(await redis.get(key) ?? 'null') ?? undefined,
+ *   set: async (key, value, ttlMs) => { await redis.set(key, JSON.stringify(value), 'PX', ttlMs); },
+ * };
+ * const app = new MCPApp({ name: 'lookup', version: '1.0.0', cache: { store: redisStore } });
+ * ```
+ */
+export interface CacheStore {
+  /** Returns the value stored under a key, or undefined when missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Stores a value under a key for the given time to live */
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+}
+
+/**
+ * In-memory cache store with time-based expiry and least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  /**
+   * Creates a new in-memory store
+   * 
+   * @param maxEntries - Maximum number of entries kept before the least recently used is evicted (defaults to 1000)
+   */
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move the entry to the back of the eviction order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Serializes a value to JSON with object keys in sorted order
+ * 
+ * Arguments that differ only in key order produce the same string, which
+ * makes it usable as a cache key.
+ * 
+ * @param value - JSON-compatible value to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === "object" && !Array.isArray(nested)) {
+      return Object.fromEntries(
+        Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+      );
+    }
+    return nested;
+  }) ?? "null";
+}
+
+/**
+ * Cache keys that apply to a single tool call
+ */
+export interface ToolCallCacheKeys {
+  /** Key of the memoized result, when the tool enables result caching */
+  resultKey?: string;
+  /** How long memoized results stay valid */
+  ttlMs?: number;
+  /** Key of the call's idempotency record, when the request carries an idempotency key */
+  idempotencyKey?: string;
+  /** Canonical arguments, used to detect an idempotency key reused for another call */
+  fingerprint: string;
+}
+
+/**
+ * Result caching and idempotency bookkeeping for tool calls
+ * 
+ * Memoized results are shared by every caller with the same key. Idempotency
+ * records remember the result of one specific call, so that a retry with the
+ * same idempotency key returns it instead of running the tool again; a retry
+ * that arrives while the original call is still running waits for it.
+ * 
+ * @template T - Type of the cached tool results
+ */
+export class ToolResultCache<T> {
+  private running = new Map<string, { owner: ToolCallCacheKeys; done: Promise<void>; finish: () => void }>();
+
+  /**
+   * Creates a new tool result cache
+   * 
+   * @param store - Backend holding results and idempotency records
+   * @param idempotencyTtlMs - How long idempotency records are kept
+   */
+  constructor(
+    private readonly store: CacheStore,
+    private readonly idempotencyTtlMs: number,
+  ) {}
+
+  /**
+   * Looks up a stored result for a call
+   * 
+   * On a miss for a call with an idempotency key, the call is registered as
+   * running; it must be concluded with `save` or `abandon`.
+   * 
+   * @param keys - Cache keys of the call
+   * @returns Stored result, or undefined when the tool has to run
+   * @throws {InvalidArgumentsError} When the idempotency key was used for a call with other arguments
+   */
+  async lookup(keys: ToolCallCacheKeys): Promise<T | undefined> {
+    if (keys.idempotencyKey) {
+      const { idempotencyKey } = keys;
+
+      // Wait for the original call; if it fails, this retry runs the tool itself
+      let running = this.running.get(idempotencyKey);
+      while (running) {
+        await running.done;
+        running = this.running.get(idempotencyKey);
+      }
+
+      // Claim the key before reading the store so that concurrent retries queue up behind this one
+      let finish!: () => void;
+      const done = new Promise<void>(resolve => finish = resolve);
+      this.running.set(idempotencyKey, { owner: keys, done, finish });
+
+      let record: { fingerprint: string; result: T } | undefined;
+      try {
+        record = await this.store.get(idempotencyKey) as typeof record;
+      } catch (error) {
+        this.abandon(keys);
+        throw error;
+      }
+
+      if (record) {
+        this.abandon(keys);
+        if (record.fingerprint !== keys.fingerprint) {
+          throw new InvalidArgumentsError("Idempotency key was already used for a call with different arguments", "IDEMPOTENCY_KEY_REUSED");
+        }
+        return record.result;
+      }
+    }
+
+    if (keys.resultKey) {
+      const result = await this.store.get(keys.resultKey) as T | undefined;
+      if (result !== undefined) {
+        this.abandon(keys);
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Stores the result of a call that ran the tool
+   * 
+   * @param keys - Cache keys of the call
+   * @param result - Result returned to the client
+   * @param memoize - Whether the result may be shared with other callers (false for failures)
+   */
+  async save(keys: ToolCallCacheKeys, result: T, memoize: boolean): Promise<void> {
+    try {
+      if (keys.resultKey && memoize) {
+        await this.store.set(keys.resultKey, result, keys.ttlMs!);
+      }
+      if (keys.idempotencyKey) {
+        await this.store.set(keys.idempotencyKey, { fingerprint: keys.fingerprint, result }, this.idempotencyTtlMs);
+      }
+    } finally {
+      this.abandon(keys);
+    }
+  }
+
+  /**
+   * Concludes a call that produced no result, letting waiting retries run the tool
+   * 
+   * @param keys - Cache keys of the call
+   */
+  abandon(keys: ToolCallCacheKeys): void {
+    const running = keys.idempotencyKey ? this.running.get(keys.idempotencyKey) : undefined;
+    if (running?.owner === keys) {
+      this.running.delete(keys.idempotencyKey!);
+      running.finish();
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { ToolError } from "./errors.js";
+
+/**
+ * What happens to a call that arrives while a tool is at its concurrency limit
+ * 
+ * - `queue`: the call waits for a running call to finish (first come, first served)
+ * - `reject`: the call fails immediately with a `TOOL_BUSY` tool error
+ */
+export type ConcurrencyPolicy = "queue" | "reject";
+
+/**
+ * Limits how many calls of a single tool run at the same time
+ * 
+ * Also counts running and waiting calls, so the limiter doubles as the
+ * source of per-tool load statistics.
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * Creates a new limiter
+   * 
+   * @param toolName - Name of the limited tool, used in error messages
+   * @param limit - Maximum number of concurrent calls (defaults to unlimited)
+   * @param policy - Handling of calls over the limit (defaults to 'queue')
+   */
+  constructor(
+    private readonly toolName: string,
+    private readonly limit: number = Infinity,
+    private readonly policy: ConcurrencyPolicy = "queue",
+  ) {}
+
+  /** Number of calls currently running */
+  get inFlight(): number {
+    return this.running;
+  }
+
+  /** Number of calls waiting for a free slot */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Waits for a free slot
+   * 
+   * @param signal - Aborts waiting in the queue (e.g. when the client cancels the call)
+   * @returns Function that frees the slot; calling it more than once has no effect
+   * @throws {ToolError} With code `TOOL_BUSY` when the limit is reached and the policy is 'reject'
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (this.running < this.limit) {
+      this.running++;
+    } else if (this.policy === "reject") {
+      throw new ToolError(`Tool '${this.toolName}' is busy (${this.limit} calls in progress), try again later`, "TOOL_BUSY");
+    } else {
+      // The slot is handed over by the releasing call, so the count stays the same
+      await this.enqueue(signal);
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    };
+  }
+
+  /**
+   * Waits until a running call hands over its slot
+   * 
+   * @param signal - Removes the call from the queue when aborted
+   * @returns Promise that resolves when it is this call's turn
+   */
+  private enqueue(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(entry => entry !== wake);
+        reject(signal?.reason);
+      };
+      const wake = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(wake);
+    });
+  }
+}
@@ -0,0 +1,439 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { z } from "zod";
+import {
+  ClientCapabilities,
+  CreateMessageRequest,
+  CreateMessageResult,
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  ListRootsResultSchema,
+  LoggingLevel,
+  McpError,
+  RequestId,
+  RequestMeta,
+  Root,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { isLogLevelEnabled } from "./logging.js";
+import { isWithinRoots } from "./roots.js";
+import { formatZodIssues, zodToJsonSchema } from "./schemas.js";
+
+/**
+ * Extra request data the MCP SDK passes to every request handler
+ */
+export type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Server-side logger scoped to a single tool invocation
+ * 
+ * Messages are written to the server console, prefixed with the tool name
+ * and request ID so concurrent calls can be told apart.
+ */
+export interface ToolLogger {
+  /** Logs a debug message */
+  debug(message: string, ...data: unknown[]): void;
+  /** Logs an informational message */
+  info(message: string, ...data: unknown[]): void;
+  /** Logs a warning */
+  warn(message: string, ...data: unknown[]): void;
+  /** Logs an error */
+  error(message: string, ...data: unknown[]): void;
+}
+
+/**
+ * Options for requests the server sends to the client from inside a tool
+ */
+export interface ClientRequestOptions {
+  /** Maximum time to wait for the client's answer (defaults to 60 seconds) */
+  timeoutMs?: number;
+  /** Additional signal that cancels the request; the tool's own signal always applies */
+  signal?: AbortSignal;
+}
+
+/**
+ * What the server knows about the session that issued a request
+ */
+export interface SessionInfo {
+  /** Capabilities declared by the client in its initialize request; when unknown, no optional feature is used */
+  clientCapabilities?: ClientCapabilities;
+  /** Minimum log level chosen by the client through `logging/setLevel`, if any */
+  logLevel?: LoggingLevel;
+  /** Roots fetched from each session, shared by all of its requests */
+  rootsCache?: Map<string, SharedRootsFetch>;
+}
+
+/**
+ * `roots/list` request shared by every call of a session
+ * 
+ * The request belongs to the session rather than to the call that started
+ * it, so cancelling that call leaves the other callers waiting on it unharmed.
+ */
+export interface SharedRootsFetch {
+  /** Roots the client answered with */
+  roots: Promise<Root[]>;
+  /** Cancels the request, e.g. when the session closes or the roots change */
+  controller: AbortController;
+}
+
+/**
+ * Context passed to custom argument completion callbacks
+ */
+export interface CompletionContext {
+  /** Arguments the user has already filled in, by name */
+  arguments: Record<string, string>;
+  /** Session that issued the request, if the client is bound to one */
+  sessionId?: string;
+  /** Aborted when the client cancels the completion request */
+  signal: AbortSignal;
+  /** Validated access token information, when the transport provides it */
+  authInfo?: AuthInfo;
+}
+
+/**
+ * Outcome of asking the user for input through elicitation
+ * 
+ * @template T - Type of the data requested from the user
+ */
+export type ElicitationResult<T> =
+  | { action: "accept"; content: T }
+  | { action: "decline" | "cancel" };
+
+/**
+ * Per-invocation context passed to tool handlers as their second argument
+ * 
+ * @example
+ * ```typescript
+ * app.createTool({
+ *   name: 'import',
+ *   schema: z.object({ files: z.array(z.string()) }),
+ *   handler: async function* ({ files }, ctx) {
+ *     for (const [index, file] of files.entries()) {
+ *       if (ctx.signal.aborted) return;
+ *       ctx.logger.info(`Importing ${file}`);
+ *       await ctx.reportProgress(index, files.length, `Importing ${file}`);
+ *       await importFile(file);
+ *     }
+ *     yield new TextResponse(`Imported ${files.length} files`);
+ *   }
+ * });
+ * ```
+ */
+export interface ToolContext {
+  /** Name of the tool being executed */
+  toolName: string;
+  /** Session that issued the call, if the client is bound to one */
+  sessionId?: string;
+  /** JSON-RPC ID the client gave the `tools/call` request */
+  requestId: RequestId;
+  /**
+   * Aborted when the client cancels the call or disconnects; the handler's
+   * generator is closed via `return()` at its next suspension point
+   */
+  signal: AbortSignal;
+  /** Validated access token information, when the transport provides it */
+  authInfo?: AuthInfo;
+  /** `_meta` object sent with the request (progress token and custom metadata) */
+  meta?: RequestMeta;
+  /** Server-side logger scoped to this invocation */
+  logger: ToolLogger;
+  /**
+   * Sends a log message to the calling client (`notifications/message`)
+   * 
+   * Messages below the level the client chose through `logging/setLevel`
+   * are dropped.
+   * 
+   * @param level - RFC 5424 severity of the message
+   * @param data - Message or JSON-serializable data to log
+   * @param logger - Logger name (defaults to the tool name)
+   */
+  log(level: LoggingLevel, data: unknown, logger?: string): Promise<void>;
+  /**
+   * Sends a notification to the calling client, routed over this request's stream
+   * 
+   * @param notification - MCP notification to send
+   */
+  notify(notification: ServerNotification): Promise<void>;
+  /**
+   * Reports progress to the calling client
+   * 
+   * Does nothing when the client did not supply a progress token.
+   * 
+   * @param progress - Current progress value
+   * @param total - Total expected value (for determinate progress)
+   * @param message - Optional description of the current step
+   */
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+  /**
+   * Asks the calling client's model for a completion (`sampling/createMessage`)
+   * 
+   * The request is only sent to the session that called the tool. It is
+   * cancelled when the tool is cancelled, and rejects with an `McpError`
+   * (`RequestTimeout`) when the client does not answer in time. Rejects
+   * immediately when the client did not declare the sampling capability.
+   * 
+   * @param params - Sampling parameters (messages, maxTokens, model preferences, ...)
+   * @param options - Timeout and cancellation options
+   * @returns The client's sampling result
+   */
+  sample(params: CreateMessageRequest['params'], options?: ClientRequestOptions): Promise<CreateMessageResult>;
+  /**
+   * Asks the user of the calling client for structured input (`elicitation/create`)
+   * 
+   * The Zod object schema is sent as the requested JSON schema, and accepted
+   * answers are validated against it. Rejects immediately when the client did
+   * not declare the elicitation capability.
+   * 
+   * @template T - Zod object schema describing the requested input
+   * @param message - Question shown to the user
+   * @param schema - Zod object schema with primitive fields
+   * @param options - Timeout and cancellation options
+   * @returns The user's decision and, when accepted, the validated data
+   * 
+   * @example
+   * ```typescript
+   * const answer = await ctx.elicit('Delete all records?', z.object({ confirm: z.boolean() }));
+   * if (answer.action !== 'accept' || !answer.content.confirm) {
+   *   yield new TextResponse('Deletion cancelled');
+   *   return;
+   * }
+   * ```
+   */
+  elicit<T extends z.ZodObject<any>>(
+    message: string,
+    schema: T,
+    options?: ClientRequestOptions,
+  ): Promise<ElicitationResult<z.infer<T>>>;
+  /**
+   * Lists the directories and files the calling client exposes (`roots/list`)
+   * 
+   * The result is cached per session until the client sends
+   * `notifications/roots/list_changed`. Rejects immediately when the client
+   * did not declare the roots capability.
+   * 
+   * @param options - Timeout and cancellation options, which only limit how long this call waits
+   * @returns Roots exposed by the client
+   */
+  listRoots(options?: ClientRequestOptions): Promise<Root[]>;
+  /**
+   * Checks whether a path or `file://` URI lies inside the calling client's roots
+   * 
+   * Use this to confine file access to what the user has exposed. Rejects like
+   * `listRoots` when the client does not support roots.
+   * 
+   * @param pathOrUri - Path or URI the tool is about to access
+   * @returns True if the target is inside one of the roots
+   * 
+   * @example
+   * ```typescript
+   * if (!await ctx.isWithinRoots(path)) {
+   *   throw new McpError(ErrorCode.InvalidParams, `${path} is outside the client's roots`);
+   * }
+   * ```
+   */
+  isWithinRoots(pathOrUri: string): Promise<boolean>;
+}
+
+/**
+ * Resolves the transport session that issued a request
+ * 
+ * The streamable HTTP transport serves many sessions through one connection,
+ * so the session is taken from the forwarded `Mcp-Session-Id` header when the
+ * transport itself does not carry one.
+ * 
+ * @param extra - Extra request data passed to MCP request handlers
+ * @returns Session ID, or undefined when the request is not bound to a session
+ */
+export function getSessionId(extra: RequestExtra): string | undefined {
+  const header = extra.requestInfo?.headers['mcp-session-id'];
+  return extra.sessionId ?? (Array.isArray(header) ? header[0] : header);
+}
+
+/**
+ * Combines abort signals into one that aborts as soon as any of them does
+ * 
+ * @param signals - Signals to combine; undefined entries are ignored
+ * @returns Combined signal
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (!signal) {
+      continue;
+    }
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Waits for a promise, giving up as soon as a signal aborts
+ * 
+ * @param promise - Promise to wait for; it keeps running when the wait is given up
+ * @param signal - Signal whose reason the wait rejects with when it aborts
+ * @returns Value of the promise
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Builds the execution context for a tool invocation
+ * 
+ * @param toolName - Name of the tool being executed
+ * @param extra - Extra request data passed by the MCP SDK to the `tools/call` handler
+ * @param session - Capabilities, log level and roots cache of the calling session
+ * @returns Tool context bound to the request
+ */
+export function createToolContext(
+  toolName: string,
+  extra: RequestExtra,
+  session: SessionInfo = {},
+): ToolContext {
+  const { clientCapabilities, logLevel, rootsCache } = session;
+  const sessionId = getSessionId(extra);
+  const prefix = `🔧 [${toolName}#${extra.requestId}]`;
+  const progressToken = extra._meta?.progressToken;
+
+  const fetchRoots = (signal: AbortSignal, timeoutMs?: number): Promise<Root[]> => extra.sendRequest(
+    { method: "roots/list" },
+    ListRootsResultSchema,
+    { timeout: timeoutMs, signal },
+  ).then(result => result.roots);
+
+  const listRoots = async (options: ClientRequestOptions = {}): Promise<Root[]> => {
+    if (!clientCapabilities?.roots) {
+      throw new McpError(ErrorCode.InvalidRequest, "Client does not support roots (no roots capability declared in initialize)");
+    }
+
+    const signal = anySignal([extra.signal, options.signal]);
+
+    // Without a session, nothing ties later requests to the same client, so roots are fetched every time
+    if (sessionId === undefined || !rootsCache) {
+      return fetchRoots(signal, options.timeoutMs);
+    }
+
+    const deadline = options.timeoutMs !== undefined ? AbortSignal.timeout(options.timeoutMs) : undefined;
+    const wait = anySignal([signal, deadline]);
+    for (;;) {
+      let shared = rootsCache.get(sessionId);
+      if (!shared) {
+        const controller = new AbortController();
+        const started: SharedRootsFetch = { controller, roots: fetchRoots(controller.signal) };
+        // Failed fetches are not cached so that the next call retries
+        rootsCache.set(sessionId, started);
+        started.roots.catch(() => {
+          if (rootsCache.get(sessionId) === started) {
+            rootsCache.delete(sessionId);
+          }
+        });
+        shared = started;
+      }
+
+      try {
+        return await untilAborted(shared.roots, wait);
+      } catch (error) {
+        if (deadline?.aborted && !signal.aborted) {
+          throw new McpError(ErrorCode.RequestTimeout, "Request timed out", { timeout: options.timeoutMs });
+        }
+        // A shared fetch cancelled for the whole session is started again for the callers still waiting
+        if (!shared.controller.signal.aborted || wait.aborted) {
+          throw error;
+        }
+      }
+    }
+  };
+
+  return {
+    toolName,
+    sessionId,
+    requestId: extra.requestId,
+    signal: extra.signal,
+    authInfo: extra.authInfo,
+    meta: extra._meta,
+    logger: {
+      debug: (message, ...data) => console.debug(prefix, message, ...data),
+      info: (message, ...data) => console.info(prefix, message, ...data),
+      warn: (message, ...data) => console.warn(prefix, message, ...data),
+      error: (message, ...data) => console.error(prefix, message, ...data),
+    },
+    log: async (level, data, logger = toolName) => {
+      if (!isLogLevelEnabled(level, logLevel)) {
+        return;
+      }
+
+      await extra.sendNotification({
+        method: "notifications/message",
+        params: { level, logger, data },
+      });
+    },
+    notify: (notification) => extra.sendNotification(notification),
+    reportProgress: async (progress, total, message) => {
+      if (progressToken === undefined) {
+        return;
+      }
+
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    },
+    sample: async (params, options = {}) => {
+      if (!clientCapabilities?.sampling) {
+        throw new McpError(ErrorCode.InvalidRequest, "Client does not support sampling (no sampling capability declared in initialize)");
+      }
+
+      return extra.sendRequest(
+        { method: "sampling/createMessage", params },
+        CreateMessageResultSchema,
+        {
+          timeout: options.timeoutMs,
+          signal: anySignal([extra.signal, options.signal]),
+        },
+      );
+    },
+    elicit: async (message, schema, options = {}) => {
+      if (!clientCapabilities?.elicitation) {
+        throw new McpError(ErrorCode.InvalidRequest, "Client does not support elicitation (no elicitation capability declared in initialize)");
+      }
+
+      const result = await extra.sendRequest(
+        {
+          method: "elicitation/create",
+          params: { message, requestedSchema: zodToJsonSchema(schema) },
+        },
+        ElicitResultSchema,
+        {
+          timeout: options.timeoutMs,
+          signal: anySignal([extra.signal, options.signal]),
+        },
+      );
+
+      if (result.action !== "accept") {
+        return { action: result.action };
+      }
+
+      const parsed = schema.safeParse(result.content ?? {});
+      if (!parsed.success) {
+        throw new McpError(ErrorCode.InvalidParams, `Elicitation response validation error: ${formatZodIssues(parsed.error)}`);
+      }
+      return { action: "accept", content: parsed.data };
+    },
+    listRoots,
+    isWithinRoots: async (pathOrUri) => isWithinRoots(pathOrUri, await listRoots()),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Base class for errors thrown by tool handlers
+ * 
+ * A plain `ToolError` is reported as a tool-level failure: the call result
+ * carries `isError: true` and the message as text content, so the model can
+ * see what went wrong and try again. Subclasses decide whether they are
+ * reported the same way or as a JSON-RPC error.
+ * 
+ * @example
+ * ```typescript
+ * handler: async function* ({ url }) {
+ *   const response = await fetch(url);
+ *   if (!response.ok) {
+ *     throw new ToolError(`Upstream returned ${response.status}`, 'UPSTREAM_FAILED');
+ *   }
+ *   yield new TextResponse(await response.text());
+ * }
+ * ```
+ */
+export class ToolError extends Error {
+  /**
+   * Creates a new tool error
+   * 
+   * @param message - Human-readable error description shown to the client
+   * @param code - Optional error code for programmatic handling
+   */
+  constructor(
+    message: string,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/**
+ * Arguments were well-formed but cannot be used (e.g. an end date before the start date)
+ * 
+ * Reported as a JSON-RPC `InvalidParams` error, like schema validation failures.
+ */
+export class InvalidArgumentsError extends ToolError {
+  constructor(message: string, code?: string) {
+    super(message, code);
+    this.name = "InvalidArgumentsError";
+  }
+}
+
+/**
+ * An entity the tool operates on does not exist
+ * 
+ * Reported as a tool-level failure (`isError: true`), so the model can retry
+ * with a different identifier.
+ */
+export class NotFoundError extends ToolError {
+  constructor(message: string, code?: string) {
+    super(message, code);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The caller is not allowed to perform the operation
+ * 
+ * Reported as a JSON-RPC `InvalidRequest` error.
+ */
+export class UnauthorizedError extends ToolError {
+  constructor(message: string = "Unauthorized", code?: string) {
+    super(message, code);
+    this.name = "UnauthorizedError";
+  }
+}
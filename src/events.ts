@@ -0,0 +1,151 @@
+import { JSONRPCMessage, RequestId } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * JSON-RPC error response
+ * 
+ * Unlike the SDK's `JSONRPCError`, the ID may be null, as JSON-RPC requires
+ * when the ID of the failed request could not be read.
+ */
+export interface JSONRPCErrorResponse {
+  jsonrpc: "2.0";
+  id: RequestId | null;
+  error: { code: number; message: string };
+}
+
+/**
+ * Message written to an SSE stream
+ */
+export type StreamMessage = JSONRPCMessage | JSONRPCErrorResponse;
+
+/**
+ * Storage of SSE events, used to replay messages a client missed while disconnected
+ * 
+ * Every message written to a resumable stream is stored first, and the ID
+ * the store returns becomes the SSE event ID. When a client reconnects with
+ * a `Last-Event-ID` header, the transport asks the store for the events of
+ * the same stream that followed it. Besides SDK messages, streams carry
+ * error responses with a null ID (for malformed batch entries), so a store
+ * that validates or replays messages must accept those as well.
+ * 
+ * @example
+ * ```typescript
+ * const app = new MCPApp({
+ *   name: 'reports',
+ *   version: '1.0.0',
+ *   transport: { eventStore: new MemoryEventStore({ maxEvents: 10_000 }) },
+ * });
+ * ```
+ */
+export interface EventStore {
+  /**
+   * Stores a message written to a stream
+   * 
+   * @param streamId - ID of the stream the message belongs to
+   * @param message - JSON-RPC message sent to the client
+   * @returns Event ID, unique across all streams
+   */
+  storeEvent(streamId: string, message: StreamMessage): Promise<string>;
+  /**
+   * Replays the events of a stream that followed a given event, in order
+   * 
+   * @param lastEventId - ID of the last event the client received
+   * @param callbacks - Receives each replayed event
+   * @returns ID of the stream the event belongs to, or an empty string when the event is unknown or expired
+   */
+  replayEventsAfter(
+    lastEventId: string,
+    callbacks: { send: (eventId: string, message: StreamMessage) => Promise<void> },
+  ): Promise<string>;
+}
+
+/**
+ * Retention limits of a MemoryEventStore
+ */
+export interface MemoryEventStoreOptions {
+  /** Maximum number of events kept across all streams (defaults to 1000) */
+  maxEvents?: number;
+  /** Time after which an event can no longer be resumed from (defaults to 5 minutes) */
+  maxAgeMs?: number;
+}
+
+/**
+ * Stored SSE event
+ */
+interface StoredEvent {
+  eventId: string;
+  streamId: string;
+  message: StreamMessage;
+  storedAt: number;
+}
+
+/**
+ * In-memory event store backed by a fixed-size ring buffer
+ * 
+ * Once the buffer is full, each new event overwrites the oldest one. A client
+ * can only resume from an event that is still retained; older event IDs are
+ * reported as unknown rather than replaying an incomplete stream.
+ */
+export class MemoryEventStore implements EventStore {
+  private events: Array<StoredEvent | undefined>;
+  /** Number of events stored so far; also the sequence number of the next event */
+  private written = 0;
+  private readonly maxEvents: number;
+  private readonly maxAgeMs: number;
+
+  /**
+   * Creates a new in-memory event store
+   * 
+   * @param options - Retention limits
+   * @throws {Error} When maxEvents is not a positive integer
+   */
+  constructor(options: MemoryEventStoreOptions = {}) {
+    this.maxEvents = options.maxEvents ?? 1000;
+    this.maxAgeMs = options.maxAgeMs ?? 5 * 60 * 1000;
+
+    if (!Number.isInteger(this.maxEvents) || this.maxEvents < 1) {
+      throw new Error(`maxEvents must be a positive integer, got ${this.maxEvents}`);
+    }
+    this.events = new Array(this.maxEvents);
+  }
+
+  async storeEvent(streamId: string, message: StreamMessage): Promise<string> {
+    const sequence = this.written++;
+    const eventId = `${streamId}#${sequence}`;
+    this.events[sequence % this.maxEvents] = { eventId, streamId, message, storedAt: Date.now() };
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: StreamMessage) => Promise<void> },
+  ): Promise<string> {
+    const sequence = Number(lastEventId.slice(lastEventId.lastIndexOf("#") + 1));
+    const lastEvent = this.find(sequence);
+    if (!lastEvent || lastEvent.eventId !== lastEventId) {
+      return "";
+    }
+
+    for (let next = sequence + 1; next < this.written; next++) {
+      const event = this.events[next % this.maxEvents]!;
+      if (event.streamId === lastEvent.streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return lastEvent.streamId;
+  }
+
+  /**
+   * Looks up a retained, unexpired event by sequence number
+   * 
+   * @param sequence - Sequence number parsed from an event ID
+   * @returns Stored event, or undefined when it was overwritten, expired or never existed
+   */
+  private find(sequence: number): StoredEvent | undefined {
+    if (!Number.isInteger(sequence) || sequence < this.written - this.maxEvents || sequence >= this.written) {
+      return undefined;
+    }
+
+    const event = this.events[sequence % this.maxEvents];
+    return event && Date.now() - event.storedAt <= this.maxAgeMs ? event : undefined;
+  }
+}
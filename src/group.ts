@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { ToolDefinition } from "./app.js";
+import { ToolMiddleware } from "./middleware.js";
+
+/**
+ * Options for mounting a tool group into an app
+ */
+export interface MountOptions {
+  /** Placed between the namespace and each tool name (defaults to '_') */
+  separator?: string;
+  /** Text put in front of every tool description (e.g. '[GitHub] ') */
+  descriptionPrefix?: string;
+}
+
+/**
+ * Set of tools built independently of any app and mounted under a namespace
+ * 
+ * Groups let separate tool packs use short, natural names without colliding:
+ * mounting a group with `app.mount('github', group)` registers its
+ * `create_issue` tool as `github_create_issue`. Middleware added to the group
+ * runs inside app-level middleware and outside each tool's own middleware.
+ * 
+ * Mounting takes a snapshot: tools and middleware added to the group
+ * afterwards only apply to later mounts.
+ * 
+ * @example
+ * ```typescript
+ * const github = new ToolGroup()
+ *   .use(requireGitHubToken)
+ *   .createTool({
+ *     name: 'create_issue',
+ *     schema: z.object({ repo: z.string(), title: z.string() }),
+ *     handler: async function* ({ repo, title }) {
+ *       yield new TextResponse(await createIssue(repo, title));
+ *     }
+ *   });
+ * 
+ * app.mount('github', github, { descriptionPrefix: '[GitHub] ' });
+ * ```
+ */
+export class ToolGroup {
+  private tools = new Map<string, ToolDefinition<any>>();
+  private middleware: ToolMiddleware[] = [];
+
+  /**
+   * Adds a tool to the group
+   * 
+   * @template T - Zod schema type for tool arguments
+   * @param definition - Tool definition; its name is relative to the group
+   * @returns This group for method chaining
+   * @throws {Error} When the group already contains a tool with that name
+   */
+  createTool<T extends z.ZodObject<any>>(definition: ToolDefinition<T>): ToolGroup {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool '${definition.name}' already exists in this group`);
+    }
+
+    this.tools.set(definition.name, definition);
+    return this;
+  }
+
+  /**
+   * Adds middleware that runs around every tool of the group
+   * 
+   * @param middleware - Middleware to append to the group-level chain
+   * @returns This group for method chaining
+   */
+  use(middleware: ToolMiddleware): ToolGroup {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Produces the definitions to register when the group is mounted
+   * 
+   * @param namespace - Namespace the group is mounted under
+   * @param options - Separator and description prefix
+   * @returns Tool definitions with namespaced names and group middleware applied
+   */
+  toDefinitions(namespace: string, options: MountOptions = {}): ToolDefinition<any>[] {
+    const separator = options.separator ?? "_";
+    const groupMiddleware = [...this.middleware];
+
+    return Array.from(this.tools.values()).map(definition => ({
+      ...definition,
+      name: `${namespace}${separator}${definition.name}`,
+      description: options.descriptionPrefix !== undefined && definition.description !== undefined
+        ? `${options.descriptionPrefix}${definition.description}`
+        : definition.description,
+      middleware: [...groupMiddleware, ...(definition.middleware ?? [])],
+    }));
+  }
+}
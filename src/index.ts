@@ -9,8 +9,53 @@
  * Core library exports for MCP Bun implementation
  */
 export { MCPApp } from "./app.js";
+export { ToolGroup } from "./group.js";
 export { StreamableHttpTransport } from "./transport.js";
-export { zodToJsonSchema, createToolHandler } from "./schemas.js";
+export { zodToJsonSchema, zodToPromptArguments, zodToCompletionValues, createToolHandler } from "./schemas.js";
+export { isWithinRoots } from "./roots.js";
+
+/**
+ * Tool execution context types
+ */
+export type {
+  ClientRequestOptions,
+  CompletionContext,
+  ElicitationResult,
+  SessionInfo,
+  ToolContext,
+  ToolLogger,
+} from "./context.js";
+
+/**
+ * Tool middleware types
+ */
+export type {
+  ToolCall,
+  ToolMiddleware,
+  ToolResponseStream,
+} from "./middleware.js";
+
+/**
+ * Tool group types
+ */
+export type { MountOptions } from "./group.js";
+
+/**
+ * Tool result caching
+ */
+export { MemoryCacheStore } from "./cache.js";
+export type { CacheStore } from "./cache.js";
+
+/**
+ * Tool execution limit types
+ */
+export type { ConcurrencyPolicy } from "./concurrency.js";
+
+/**
+ * Resumable stream event storage
+ */
+export { MemoryEventStore } from "./events.js";
+export type { EventStore, JSONRPCErrorResponse, MemoryEventStoreOptions, StreamMessage } from "./events.js";
 
 /**
  * Transport configuration types
@@ -23,13 +68,26 @@ export {
   TextResponse,
   ImageResponse,
   ResourceResponse,
+  StructuredResponse,
   RawResponse,
   ErrorResponse,
   ProgressResponse,
   LogResponse,
+  PromptMessage,
 } from "./responses.js";
 
+/**
+ * Errors tool handlers can throw
+ */
+export {
+  ToolError,
+  InvalidArgumentsError,
+  NotFoundError,
+  UnauthorizedError,
+} from "./errors.js";
+
 /**
  * Re-export commonly used types from dependencies for convenient access
  */
+export type { Icon, LoggingLevel, Root, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 export { z } from "zod";
\ No newline at end of file
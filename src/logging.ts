@@ -0,0 +1,31 @@
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * RFC 5424 severities used by MCP logging, from least to most severe
+ */
+const LOG_LEVELS: readonly LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+/**
+ * Checks whether a message passes a client's minimum log level
+ * 
+ * Clients that never sent `logging/setLevel` receive every message.
+ * 
+ * @param level - Severity of the message
+ * @param minimumLevel - Level chosen by the client, if any
+ * @returns True if the message should be delivered
+ */
+export function isLogLevelEnabled(level: LoggingLevel, minimumLevel?: LoggingLevel): boolean {
+  if (!minimumLevel) {
+    return true;
+  }
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel);
+}
@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { MCPApp } from "./app.js";
+import { composeMiddleware, ToolCall, ToolMiddleware, ToolResponseStream } from "./middleware.js";
+import { MCPResponse, TextResponse } from "./responses.js";
+
+/**
+ * Connects an in-memory client to the app's MCP server
+ */
+async function connect(app: MCPApp): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await app["server"].connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Middleware that records when it is entered and left
+ */
+function recording(name: string, log: string[]): ToolMiddleware {
+  return async function* (_call, next) {
+    log.push(`${name}:before`);
+    try {
+      yield* next();
+    } finally {
+      log.push(`${name}:after`);
+    }
+  };
+}
+
+/**
+ * Runs a composed chain and collects the responses it yields
+ */
+async function collect(stream: ToolResponseStream): Promise<MCPResponse[]> {
+  const responses: MCPResponse[] = [];
+  for await (const response of stream) {
+    responses.push(response);
+  }
+  return responses;
+}
+
+const call = { name: "tool", args: {}, ctx: {} } as ToolCall;
+
+describe("composeMiddleware", () => {
+  test("runs middleware as an onion around the handler", async () => {
+    const log: string[] = [];
+    const run = composeMiddleware([recording("outer", log), recording("inner", log)], async function* () {
+      log.push("handler");
+      yield new TextResponse("done");
+    });
+
+    await collect(run(call));
+
+    expect(log).toEqual(["outer:before", "inner:before", "handler", "inner:after", "outer:after"]);
+  });
+
+  test("propagates handler errors outwards through every middleware", async () => {
+    const log: string[] = [];
+    const observing = (name: string): ToolMiddleware => async function* (_call, next) {
+      try {
+        yield* next();
+      } catch (error) {
+        log.push(`${name} saw ${(error as Error).message}`);
+        throw error;
+      }
+    };
+    const run = composeMiddleware([observing("outer"), observing("inner")], async function* () {
+      throw new Error("boom");
+    });
+
+    await expect(collect(run(call))).rejects.toThrow("boom");
+    expect(log).toEqual(["inner saw boom", "outer saw boom"]);
+  });
+
+  test("throws when a middleware calls next() twice", async () => {
+    const run = composeMiddleware([
+      async function* (_call, next) {
+        yield* next();
+        yield* next();
+      },
+    ], async function* () {
+      yield new TextResponse("once");
+    });
+
+    await expect(collect(run(call))).rejects.toThrow("called next() multiple times");
+  });
+});
+
+describe("MCPApp middleware", () => {
+  test("runs app-level middleware outside tool-level middleware", async () => {
+    const log: string[] = [];
+    const app = new MCPApp({ name: "test", version: "1.0.0" })
+      .use(recording("app", log))
+      .createTool({
+        name: "echo",
+        schema: z.object({ text: z.string() }),
+        middleware: [recording("tool", log)],
+        handler: async function* ({ text }) {
+          log.push("handler");
+          yield new TextResponse(text);
+        },
+      });
+    const client = await connect(app);
+
+    const result = await client.callTool({ name: "echo", arguments: { text: "hi" } });
+
+    expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+    expect(log).toEqual(["app:before", "tool:before", "handler", "tool:after", "app:after"]);
+    await client.close();
+  });
+
+  test("short-circuits with an McpError", async () => {
+    let handlerCalled = false;
+    const app = new MCPApp({ name: "test", version: "1.0.0" })
+      .use(async function* () {
+        throw new McpError(ErrorCode.InvalidRequest, "Denied by middleware");
+      })
+      .createTool({
+        name: "guarded",
+        schema: z.object({}),
+        handler: async function* () {
+          handlerCalled = true;
+          yield new TextResponse("secret");
+        },
+      });
+    const client = await connect(app);
+
+    const error = await client.callTool({ name: "guarded", arguments: {} }).catch(error => error);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain("Denied by middleware");
+    expect(handlerCalled).toBe(false);
+    await client.close();
+  });
+
+  test("short-circuits with a yielded response", async () => {
+    let handlerCalled = false;
+    const app = new MCPApp({ name: "test", version: "1.0.0" })
+      .use(async function* () {
+        yield new TextResponse("from cache");
+      })
+      .createTool({
+        name: "lookup",
+        schema: z.object({}),
+        handler: async function* () {
+          handlerCalled = true;
+          yield new TextResponse("fresh");
+        },
+      });
+    const client = await connect(app);
+
+    const result = await client.callTool({ name: "lookup", arguments: {} });
+
+    expect(result.content).toEqual([{ type: "text", text: "from cache" }]);
+    expect(handlerCalled).toBe(false);
+    await client.close();
+  });
+});
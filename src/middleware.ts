@@ -0,0 +1,98 @@
+import { ToolContext } from "./context.js";
+import { MCPResponse } from "./responses.js";
+
+/**
+ * Describes a single tool invocation as seen by middleware
+ * 
+ * @template TArgs - Type of the validated tool arguments
+ */
+export interface ToolCall<TArgs = Record<string, unknown>> {
+  /** Name of the tool being called */
+  name: string;
+  /** Arguments after validation against the tool schema */
+  args: TArgs;
+  /** Execution context of the invocation */
+  ctx: ToolContext;
+}
+
+/**
+ * Stream of responses produced by the rest of the middleware chain
+ */
+export type ToolResponseStream = AsyncGenerator<MCPResponse, void, unknown>;
+
+/**
+ * Onion-style middleware wrapped around tool execution
+ * 
+ * A middleware is an async generator that receives the call and a `next`
+ * function running the remainder of the chain. It may:
+ * - short-circuit by throwing (e.g. a `ToolError` or `McpError`) or by
+ *   yielding its own responses without calling `next`
+ * - observe or transform the responses by iterating `next()` and re-yielding
+ * - run code before and after the inner chain, including in `finally` blocks
+ * 
+ * Errors thrown further in propagate outwards through every enclosing
+ * middleware, which may catch them around `yield* next()`.
+ * 
+ * @template TArgs - Type of the validated tool arguments
+ * 
+ * @example
+ * ```typescript
+ * // Timing
+ * app.use(async function* (call, next) {
+ *   const start = Date.now();
+ *   try {
+ *     yield* next();
+ *   } finally {
+ *     call.ctx.logger.info(`${call.name} took ${Date.now() - start}ms`);
+ *   }
+ * });
+ * 
+ * // Authorization
+ * app.use(async function* (call, next) {
+ *   if (!call.ctx.authInfo) {
+ *     throw new UnauthorizedError();
+ *   }
+ *   yield* next();
+ * });
+ * ```
+ */
+export type ToolMiddleware<TArgs = Record<string, unknown>> = (
+  call: ToolCall<TArgs>,
+  next: () => ToolResponseStream,
+) => ToolResponseStream;
+
+/**
+ * Composes middleware around a tool handler into a single response stream
+ * 
+ * Middleware run in array order: the first entry is the outermost layer and
+ * sees the call first and the responses last.
+ * 
+ * @template TArgs - Type of the validated tool arguments
+ * @param middleware - Middleware to apply, outermost first
+ * @param handler - Innermost handler producing the tool responses
+ * @returns Function running the whole chain for a call
+ * @throws {Error} When a middleware calls `next` more than once
+ */
+export function composeMiddleware<TArgs>(
+  middleware: ToolMiddleware<TArgs>[],
+  handler: (call: ToolCall<TArgs>) => ToolResponseStream,
+): (call: ToolCall<TArgs>) => ToolResponseStream {
+  return (call) => {
+    const dispatch = (index: number): ToolResponseStream => {
+      if (index === middleware.length) {
+        return handler(call);
+      }
+
+      let called = false;
+      return middleware[index](call, () => {
+        if (called) {
+          throw new Error(`Middleware for tool '${call.name}' called next() multiple times`);
+        }
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+
+    return dispatch(0);
+  };
+}
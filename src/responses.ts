@@ -1,3 +1,5 @@
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
 /**
  * Abstract base class for all MCP response types
  * 
@@ -89,7 +91,11 @@ export class ImageResponse extends MCPResponse {
  * Resource response for referencing external resources or files
  * 
  * Used to return references to files, URLs, or other resources that the client
- * can access. Optionally includes text content for inline resource data.
+ * can access. Optionally includes text content for inline resource data, or
+ * base64-encoded binary content when the resource is not textual.
+ * 
+ * The same class is yielded from resource read handlers, where it describes
+ * one entry of the `contents` array returned by `resources/read`.
  * 
  * @example
  * ```typescript
@@ -98,6 +104,12 @@ export class ImageResponse extends MCPResponse {
  * 
  * // URL with description
  * yield new ResourceResponse('https://example.com/api/data', 'API endpoint data');
+ * 
+ * // Text content with explicit MIME type
+ * yield new ResourceResponse('config://app', JSON.stringify(config), { mimeType: 'application/json' });
+ * 
+ * // Binary content
+ * yield new ResourceResponse('file:///logo.png', undefined, { blob: base64Data, mimeType: 'image/png' });
  * ```
  */
 export class ResourceResponse extends MCPResponse {
@@ -106,21 +118,78 @@ export class ResourceResponse extends MCPResponse {
    * 
    * @param uri - URI/URL of the resource to reference
    * @param text - Optional text content or description of the resource
+   * @param options - Optional MIME type and base64-encoded binary content
    */
   constructor(
     private uri: string,
     private text?: string,
+    private options: { mimeType?: string; blob?: string } = {},
   ) {
     super();
   }
 
+  /**
+   * Converts the response into an MCP resource contents entry
+   * 
+   * Binary content takes precedence over text when both are provided.
+   * 
+   * @returns Text or blob resource contents as used by `resources/read`
+   */
+  toResourceContents(): { uri: string; mimeType?: string; text: string } | { uri: string; mimeType?: string; blob: string } {
+    const { mimeType, blob } = this.options;
+
+    if (blob !== undefined) {
+      return { uri: this.uri, mimeType, blob };
+    }
+
+    return { uri: this.uri, mimeType, text: this.text ?? "" };
+  }
+
   toMCPContent() {
     return {
       type: "resource",
-      resource: {
-        uri: this.uri,
-        text: this.text,
-      },
+      resource: this.toResourceContents(),
+    };
+  }
+}
+
+/**
+ * Structured response for returning a typed object as the tool's result
+ * 
+ * The object becomes the result's `structuredContent` and is validated against
+ * the tool's `outputSchema`, when one is declared. A text serialization is also
+ * added to the regular content for clients that predate structured output.
+ * A tool may yield at most one structured response.
+ * 
+ * @template T - Type of the structured object
+ * 
+ * @example
+ * ```typescript
+ * // JSON text fallback
+ * yield new StructuredResponse({ temperature: 21.5, unit: 'celsius' });
+ * 
+ * // Custom text fallback
+ * yield new StructuredResponse({ temperature: 21.5, unit: 'celsius' }, '21.5 °C');
+ * ```
+ */
+export class StructuredResponse<T extends Record<string, unknown> = Record<string, unknown>> extends MCPResponse {
+  /**
+   * Creates a new structured response
+   * 
+   * @param data - Structured result object
+   * @param text - Optional text fallback (defaults to the JSON serialization of the data)
+   */
+  constructor(
+    readonly data: T,
+    private text?: string,
+  ) {
+    super();
+  }
+
+  toMCPContent() {
+    return {
+      type: "text",
+      text: this.text ?? JSON.stringify(this.data, null, 2),
     };
   }
 }
@@ -160,8 +229,9 @@ export class RawResponse extends MCPResponse {
 /**
  * Error response for reporting failures or exceptional conditions
  * 
- * Used to communicate errors back to MCP clients with optional error codes
- * for programmatic error handling. Follows standard error response patterns.
+ * Yielding an error response marks the tool result with `isError: true`; the
+ * message (prefixed with the code, if any) is sent as text content so the
+ * model can see what went wrong. Other yielded content is kept.
  * 
  * @example
  * ```typescript
@@ -188,11 +258,8 @@ export class ErrorResponse extends MCPResponse {
 
   toMCPContent() {
     return {
-      type: "error",
-      error: {
-        message: this.message,
-        code: this.code,
-      },
+      type: "text",
+      text: this.code ? `${this.code}: ${this.message}` : this.message,
     };
   }
 }
@@ -203,6 +270,11 @@ export class ErrorResponse extends MCPResponse {
  * Enables real-time progress reporting for operations that take significant time.
  * Supports both determinate (with total) and indeterminate progress indicators.
  * 
+ * When yielded from a tool handler, the progress is sent to the client right away
+ * as a `notifications/progress` message tied to the request's progress token,
+ * and is not included in the final tool result. It is dropped when the client
+ * did not ask for progress updates.
+ * 
  * @example
  * ```typescript
  * // Determinate progress (50 out of 100)
@@ -236,6 +308,21 @@ export class ProgressResponse extends MCPResponse {
       total: this.total,
     };
   }
+
+  /**
+   * Converts the response into `notifications/progress` parameters
+   * 
+   * @param progressToken - Token supplied by the client in the request's `_meta`
+   * @returns Progress notification parameters
+   */
+  toProgressNotification(progressToken: string | number) {
+    return {
+      progressToken,
+      progress: this.progress,
+      total: this.total,
+      message: this.message,
+    };
+  }
 }
 
 /**
@@ -244,6 +331,11 @@ export class ProgressResponse extends MCPResponse {
  * Provides structured logging capabilities with severity levels.
  * Useful for debugging tool execution and providing detailed operation traces.
  * 
+ * When yielded from a tool handler, the message is sent to the client right away
+ * as a `notifications/message` log entry (subject to the level the client chose
+ * through `logging/setLevel`) and is not included in the final tool result.
+ * Any RFC 5424 level is accepted; `'warn'` is an alias for `'warning'`.
+ * 
  * @example
  * ```typescript
  * // Info message
@@ -265,7 +357,7 @@ export class LogResponse extends MCPResponse {
    */
   constructor(
     private message: string,
-    private level: "debug" | "info" | "warn" | "error" = "info",
+    private level: LoggingLevel | "warn" = "info",
   ) {
     super();
   }
@@ -277,4 +369,63 @@ export class LogResponse extends MCPResponse {
       level: this.level,
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Converts the response into `notifications/message` parameters
+   * 
+   * Maps the response level onto the RFC 5424 severities used by MCP logging.
+   * 
+   * @param logger - Optional name of the logger emitting the message
+   * @returns Logging notification parameters
+   */
+  toLoggingNotification(logger?: string) {
+    return {
+      level: this.level === "warn" ? "warning" : this.level,
+      logger,
+      data: this.message,
+    } satisfies { level: LoggingLevel; logger?: string; data: unknown };
+  }
+}
+
+/**
+ * Prompt message pairing a conversation role with MCP content
+ * 
+ * Prompt handlers yield (or return) these messages to build the conversation
+ * sent back by `prompts/get`. The content reuses the regular response classes,
+ * so text, images and embedded resources are expressed the same way as in tools.
+ * 
+ * @example
+ * ```typescript
+ * yield new PromptMessage('user', new TextResponse(`Review this code:\n${code}`));
+ * yield new PromptMessage('user', new ResourceResponse('file:///src/app.ts', source));
+ * yield new PromptMessage('assistant', 'Sure, let me take a look.');
+ * ```
+ */
+export class PromptMessage {
+  private content: MCPResponse;
+
+  /**
+   * Creates a new prompt message
+   * 
+   * @param role - Speaker of the message
+   * @param content - Message content; plain strings are wrapped in a TextResponse
+   */
+  constructor(
+    private role: "user" | "assistant",
+    content: MCPResponse | string,
+  ) {
+    this.content = typeof content === "string" ? new TextResponse(content) : content;
+  }
+
+  /**
+   * Converts the message into MCP prompt message format
+   * 
+   * @returns MCP-compatible prompt message with role and content
+   */
+  toMCPMessage() {
+    return {
+      role: this.role,
+      content: this.content.toMCPContent(),
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Root } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Converts a file path or `file://` URI into an absolute file system path
+ * 
+ * @param pathOrUri - Path or URI to convert
+ * @returns Absolute path, or undefined for non-file URIs and malformed file URIs
+ */
+function toFilePath(pathOrUri: string): string | undefined {
+  if (pathOrUri.startsWith("file:")) {
+    try {
+      return fileURLToPath(pathOrUri);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Any other scheme (single letters are Windows drive letters, not schemes)
+  if (/^[a-z][a-z0-9+.-]+:/i.test(pathOrUri)) {
+    return undefined;
+  }
+
+  return path.resolve(pathOrUri);
+}
+
+/**
+ * Checks whether a file path or `file://` URI lies inside one of the client's roots
+ * 
+ * Paths are normalized before comparison, so `..` segments cannot escape a
+ * root. The comparison is lexical: symbolic links are not resolved. Relative
+ * paths are resolved against the server's working directory, and non-file
+ * URIs never match.
+ * 
+ * @param pathOrUri - Path or URI to check
+ * @param roots - Roots exposed by the client (see `ctx.listRoots()`)
+ * @returns True if the target equals or is nested under a root
+ * 
+ * @example
+ * ```typescript
+ * const roots = [{ uri: 'file:///home/user/project' }];
+ * isWithinRoots('/home/user/project/src/index.ts', roots); // true
+ * isWithinRoots('file:///home/user/project/../.ssh/id_rsa', roots); // false
+ * ```
+ */
+export function isWithinRoots(pathOrUri: string, roots: Root[]): boolean {
+  const target = toFilePath(pathOrUri);
+  if (target === undefined) {
+    return false;
+  }
+
+  return roots.some(root => {
+    const rootPath = toFilePath(root.uri);
+    if (rootPath === undefined) {
+      return false;
+    }
+
+    const relative = path.relative(rootPath, target);
+    const escapes = relative === ".." || relative.startsWith(`..${path.sep}`);
+    return !escapes && !path.isAbsolute(relative);
+  });
+}
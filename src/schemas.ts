@@ -23,6 +23,80 @@ export function zodToJsonSchema(schema: z.ZodTypeAny): any {
   return z.toJSONSchema(schema);
 }
 
+/**
+ * Formats Zod validation issues into a single readable line
+ * 
+ * @param error - Zod error to format
+ * @returns Comma-separated list of `path: message` entries
+ */
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues.map(issue => 
+    `${issue.path.join('.')}: ${issue.message}`,
+  ).join(', ');
+}
+
+/**
+ * Converts a Zod object schema into an MCP prompt argument list
+ * 
+ * Each property of the object becomes one prompt argument. The argument is
+ * marked as required unless the property accepts `undefined` (optional or
+ * defaulted fields), and its description is taken from `.describe()`.
+ * 
+ * @param schema - Zod object schema describing the prompt arguments
+ * @returns Array of MCP prompt argument descriptors
+ * 
+ * @example
+ * ```typescript
+ * const args = zodToPromptArguments(z.object({
+ *   code: z.string().describe('Code to review'),
+ *   language: z.string().optional()
+ * }));
+ * // [{ name: 'code', description: 'Code to review', required: true },
+ * //  { name: 'language', description: undefined, required: false }]
+ * ```
+ */
+export function zodToPromptArguments(
+  schema: z.ZodObject<any>,
+): Array<{ name: string; description?: string; required: boolean }> {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    description: field.description,
+    required: !field.safeParse(undefined).success,
+  }));
+}
+
+/**
+ * Derives the fixed set of values a Zod field accepts, for argument completion
+ * 
+ * Enums, literals and unions of them yield their values as strings; optional,
+ * nullable and defaulted wrappers are looked through. Any other field type is
+ * open-ended and yields no values.
+ * 
+ * @param field - Zod schema of a single argument
+ * @returns Accepted values, or an empty array when the field is not enum-like
+ * 
+ * @example
+ * ```typescript
+ * zodToCompletionValues(z.enum(['asc', 'desc']).optional());
+ * // ['asc', 'desc']
+ * ```
+ */
+export function zodToCompletionValues(field: z.ZodTypeAny): string[] {
+  if (field instanceof z.ZodOptional || field instanceof z.ZodNullable || field instanceof z.ZodDefault) {
+    return zodToCompletionValues(field.unwrap() as z.ZodTypeAny);
+  }
+  if (field instanceof z.ZodEnum) {
+    return field.options.map(String);
+  }
+  if (field instanceof z.ZodLiteral) {
+    return Array.from(field.values, String);
+  }
+  if (field instanceof z.ZodUnion) {
+    return field.options.flatMap(option => zodToCompletionValues(option as z.ZodTypeAny));
+  }
+  return [];
+}
+
 /**
  * Creates a validated tool handler that automatically parses and validates arguments
  * 
@@ -1,10 +1,17 @@
-import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
+  ClientCapabilities,
   JSONRPCMessage,
   JSONRPCRequest,
   JSONRPCResponse,
+  JSONRPCError,
   JSONRPCNotification,
+  ErrorCode,
+  JSONRPCMessageSchema,
+  MessageExtraInfo,
+  RequestId,
 } from "@modelcontextprotocol/sdk/types.js";
+import { EventStore, JSONRPCErrorResponse, MemoryEventStore, StreamMessage } from "./events.js";
 
 
 /**
@@ -19,21 +26,59 @@ export interface StreamableHttpTransportOptions {
   port: number;
   /** URL path for MCP endpoint requests */
   path: string;
+  /**
+   * Serves every request without sessions (e.g. on serverless platforms)
+   * 
+   * No `Mcp-Session-Id` is issued, checked or passed on to handlers,
+   * requests are answered on their own POST, and GET and DELETE are not
+   * available. Features tied to a session, such as resource subscriptions,
+   * do not work.
+   */
+  stateless?: boolean;
+  /** Time after which a session without an open stream or new requests expires (defaults to 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * Storage of sent SSE events, replayed when a client reconnects with `Last-Event-ID`
+   * 
+   * Defaults to an in-memory store; not used in stateless mode.
+   */
+  eventStore?: EventStore;
+  /** Time to wait for the result of a request answered with `application/json` (defaults to 5 minutes) */
+  requestTimeoutMs?: number;
 }
 
 /**
- * Represents an active client session for event streaming
+ * SSE stream to a client
  * 
- * Sessions maintain persistent connections for real-time communication
- * with MCP clients through Server-Sent Events (SSE).
+ * The record outlives the HTTP response it was opened with: after a dropped
+ * connection, the client can resume it with a GET request carrying the ID of
+ * the last event it received.
+ */
+interface SseStream {
+  /** ID events are stored under for replay (absent when streams are not resumable) */
+  id?: string;
+  /** Controller of the HTTP response body, while the client is connected */
+  controller?: ReadableStreamDefaultController<string>;
+  /** ID of the latest event sent; once set, the client can resume the stream */
+  lastEventId?: string;
+}
+
+/**
+ * Represents a client session
+ * 
+ * A session starts with a successful `initialize` request and lasts until the
+ * client deletes it or it stays idle for too long. Its SSE stream may close
+ * and be reopened in between.
  */
 interface Session {
   /** Unique session identifier for tracking connections */
   id: string;
-  /** HTTP response object for the session (optional) */
-  response?: Response;
-  /** Stream controller for sending data to the client */
-  controller?: ReadableStreamDefaultController<string>;
+  /** Standalone GET stream */
+  stream?: SseStream;
+  /** Timestamp of the session's latest HTTP request */
+  lastSeen: number;
+  /** Protocol version negotiated by the session's initialize request */
+  protocolVersion?: string;
 }
 
 /**
@@ -42,10 +87,21 @@ interface Session {
  * Maps request IDs to their originating sessions for proper response routing.
  */
 interface PendingRequest {
-  /** ID of the JSON-RPC request */
+  /** ID the request was dispatched under, unique to the transport */
   requestId: string | number;
-  /** Session ID where the request originated */
-  sessionId: string;
+  /** ID the client gave the request, restored in the response */
+  clientRequestId: string | number;
+  /** Session ID where the request originated (absent in stateless mode) */
+  sessionId?: string;
+  /**
+   * SSE stream opened by the request's POST
+   * 
+   * Carries the request's notifications, server-to-client requests made while
+   * handling it, and finally its response, after which it is closed.
+   */
+  stream?: SseStream;
+  /** Receives the response of a request answered with `application/json` */
+  respond?: (response: JSONRPCResponse | JSONRPCError) => void;
   /** Timestamp when the request was received */
   timestamp: number;
 }
@@ -58,9 +114,16 @@ interface PendingRequest {
  * Uses Server-Sent Events (SSE) for persistent connections and immediate message delivery.
  * 
  * Features:
- * - RESTful POST endpoint for MCP requests
- * - GET endpoint for establishing SSE streams
- * - Session management for multiple concurrent clients
+ * - POST endpoint for MCP requests, each answered over its own SSE stream
+ *   that also carries the request's notifications and server requests
+ * - GET endpoint for a standalone SSE stream of unrelated server messages
+ * - DELETE endpoint for terminating sessions
+ * - Session management for multiple concurrent clients, with sessions issued
+ *   on initialize and expired after a period of inactivity
+ * - JSON-RPC batches for clients on protocol versions that support them
+ * - Resumable SSE streams: events carry IDs and missed events are replayed
+ *   when a client reconnects with `Last-Event-ID`
+ * - Optional stateless mode for serverless deployments
  * - Origin validation for security
  * - MCP protocol version negotiation
  * 
@@ -117,14 +180,28 @@ export class StreamableHttpTransport implements Transport {
   private server?: any; // Can be Bun.Server or Node.js server
   private sessions = new Map<string, Session>();
   private pendingRequests = new Map<string | number, PendingRequest>();
+  private nextRequestId = 1;
+  /** Server-initiated requests awaiting a client response, mapped to the session they were sent to */
+  private outgoingRequests = new Map<string | number, string>();
+  /** Capabilities each session's client declared in its initialize request */
+  private clientCapabilities = new Map<string, ClientCapabilities>();
   private options: StreamableHttpTransportOptions;
   private runtime: 'bun' | 'node' | 'unknown';
+  private expiryTimer?: ReturnType<typeof setInterval>;
+  /** Store of sent events, absent in stateless mode */
+  private eventStore?: EventStore;
 
   // MCP SDK Transport interface properties  
   onmessage?: (message: JSONRPCMessage, extra?: any) => void;
   onclose?: () => void;
   onerror?: (error: Error) => void;
   sessionId?: string;
+
+  /** Invoked when a session ends, because the client deleted it or it expired */
+  onsessionclosed?: (sessionId: string) => void;
+
+  /** Invoked when a session reports that its roots changed (`notifications/roots/list_changed`) */
+  onrootslistchanged?: (sessionId: string) => void;
   
   private protocolVersion?: string;
 
@@ -169,6 +246,7 @@ export class StreamableHttpTransport implements Transport {
   constructor(options: StreamableHttpTransportOptions) {
     this.options = options;
     this.runtime = RuntimeDetection.getRuntime();
+    this.eventStore = options.stateless ? undefined : options.eventStore ?? new MemoryEventStore();
     
     if (this.runtime === 'unknown') {
       throw new Error('Unsupported runtime environment. This SDK requires Bun or Node.js.');
@@ -266,6 +344,11 @@ export class StreamableHttpTransport implements Transport {
       } else {
         throw new Error(`Unsupported runtime: ${this.runtime}`);
       }
+
+      if (!this.options.stateless) {
+        this.expiryTimer = setInterval(() => this.expireIdleSessions(), 60_000);
+        this.expiryTimer.unref?.();
+      }
     } catch (error) {
       const startupError = error instanceof Error ? error : new Error(String(error));
       this.handleError(startupError, `${this.runtime} server startup failed`);
@@ -291,6 +374,8 @@ export class StreamableHttpTransport implements Transport {
    */
   async close(): Promise<void> {
     console.log("🛑 Transport.close() called");
+    clearInterval(this.expiryTimer);
+    this.expiryTimer = undefined;
     try {
       if (this.server) {
         if (this.runtime === 'bun') {
@@ -307,9 +392,9 @@ export class StreamableHttpTransport implements Transport {
       }
       
       for (const session of this.sessions.values()) {
-        if (session.controller) {
+        if (session.stream?.controller) {
           try {
-            session.controller.close();
+            session.stream.controller.close();
           } catch (error) {
             const closeError = error instanceof Error ? error : new Error(String(error));
             this.handleError(closeError, 'Failed to close session');
@@ -320,6 +405,8 @@ export class StreamableHttpTransport implements Transport {
       
       // Clear pending requests on shutdown
       this.pendingRequests.clear();
+      this.outgoingRequests.clear();
+      this.clientCapabilities.clear();
 
       if (this.onclose) {
         this.onclose();
@@ -339,13 +426,16 @@ export class StreamableHttpTransport implements Transport {
    * 
    * Routes messages based on their specific JSON-RPC type:
    * - Responses: Sent back to the originating session
-   * - Requests: Broadcast to all active sessions (for server-initiated requests)
-   * - Notifications: Broadcast to all active sessions
+   * - Requests: Sent to the session of the related request (e.g. sampling from
+   *   inside a tool), otherwise broadcast to all active sessions
+   * - Notifications: Sent to the session of the related request (progress, logs),
+   *   otherwise broadcast to all active sessions
    * 
    * @param message - JSON-RPC message to send
+   * @param options - Send options, including the request the message relates to
    * @returns Promise that resolves when message is sent
    */
-  async send(message: JSONRPCMessage, _options?: any): Promise<void> {
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
     console.log("📤 Transport.send called with:", JSON.stringify(message, null, 2));
     
     // Special logging for responses to tools/list
@@ -365,10 +455,46 @@ export class StreamableHttpTransport implements Transport {
       // Handle responses - send back via the appropriate session
       await this.sendResponse(message);
     } else if (this.isJSONRPCRequest(message)) {
+      // Requests raised while handling a client request only go to that client
+      if (options?.relatedRequestId !== undefined) {
+        const relatedRequest = this.pendingRequests.get(options.relatedRequestId);
+        if (!relatedRequest || !await this.sendRelated(relatedRequest, message)) {
+          throw new Error(`Cannot deliver ${message.method} request: the calling session is not connected`);
+        }
+
+        console.log("📋 Detected as JSONRPCRequest - sent for request", relatedRequest.requestId);
+        if (relatedRequest.sessionId) {
+          this.outgoingRequests.set(message.id, relatedRequest.sessionId);
+        }
+        return;
+      }
+
       console.log("📋 Detected as JSONRPCRequest - broadcasting");
       // Handle server-initiated requests - broadcast to all sessions
       await this.broadcastMessage(message);
     } else if (this.isJSONRPCNotification(message)) {
+      // The server gave up on one of its own requests; stop expecting a response
+      if (message.method === "notifications/cancelled") {
+        const cancelledId = message.params?.requestId;
+        if (typeof cancelledId === "string" || typeof cancelledId === "number") {
+          this.outgoingRequests.delete(cancelledId);
+        }
+      }
+
+      // Notifications raised while handling a request go to that request's client only
+      if (options?.relatedRequestId !== undefined) {
+        const relatedRequest = this.pendingRequests.get(options.relatedRequestId);
+        if (!relatedRequest) {
+          // The request finished, timed out or was cancelled; never leak to other clients
+          console.log("📢 Detected as JSONRPCNotification - dropped, request", options.relatedRequestId, "is no longer pending");
+          return;
+        }
+        if (!await this.sendRelated(relatedRequest, message)) {
+          console.log("📢 Detected as JSONRPCNotification - dropped, client of request", relatedRequest.requestId, "is gone");
+        }
+        return;
+      }
+
       console.log("📢 Detected as JSONRPCNotification - broadcasting");
       // Handle notifications - broadcast to all sessions
       await this.broadcastMessage(message);
@@ -397,8 +523,10 @@ export class StreamableHttpTransport implements Transport {
 
     if (request.method === "POST") {
       return this.handlePostRequest(request);
-    } else if (request.method === "GET") {
+    } else if (request.method === "GET" && !this.options.stateless) {
       return this.handleGetRequest(request);
+    } else if (request.method === "DELETE" && !this.options.stateless) {
+      return this.handleDeleteRequest(request);
     }
 
     console.log(`❌ Method not allowed: ${request.method}`);
@@ -408,6 +536,10 @@ export class StreamableHttpTransport implements Transport {
   /**
    * Handles incoming POST requests with JSON-RPC messages
    * 
+   * Notifications and responses are acknowledged with 202. Requests are
+   * answered over their own SSE stream, or with a single JSON body for
+   * `initialize` and for clients that do not accept `text/event-stream`.
+   * 
    * @param request - The HTTP request containing JSON-RPC message
    * @returns HTTP response based on message type
    */
@@ -430,126 +562,98 @@ export class StreamableHttpTransport implements Transport {
       const body = await request.text();
       console.log("📨 Request body:", body);
       
-      const message: JSONRPCMessage = JSON.parse(body);
-      console.log("📦 Parsed message:", JSON.stringify(message, null, 2));
-      
-      // Special logging for tools/list
-      if (this.isJSONRPCRequest(message) && "method" in message && message.method === "tools/list") {
-        console.log("🔧 TOOLS/LIST request detected");
-      }
+      const parsed: JSONRPCMessage | unknown[] = JSON.parse(body);
+      console.log("📦 Parsed message:", JSON.stringify(parsed, null, 2));
       
       // Extract session ID from headers for request correlation (MCP spec header name)
-      const sessionId = request.headers.get("Mcp-Session-Id");
+      const sessionId = this.options.stateless ? null : request.headers.get("Mcp-Session-Id");
       console.log("🔐 Session ID:", sessionId);
 
-      // For initialize requests, we need to wait for and return the response immediately
-      if (this.isJSONRPCRequest(message) && "method" in message && message.method === "initialize") {
-        console.log("🚀 INITIALIZE request detected - setting up special handling");
-        
-        // Handle initialize specially - must return JSON response immediately
-        return new Promise((resolve) => {
-          // Set up a one-time response handler
-          const originalSend = this.send.bind(this);
-          console.log("🔄 Hijacking send method for initialize response");
-          
-          this.send = async (responseMessage: JSONRPCMessage) => {
-            console.log("📤 Send method called with message:", JSON.stringify(responseMessage, null, 2));
-            
-            // Check if this is an error response
-            if (this.isJSONRPCResponse(responseMessage) && "error" in responseMessage && responseMessage.error) {
-              console.log("❌ MCP Server returned error:", responseMessage.error);
-            }
-            
-            // Restore original send method
-            this.send = originalSend;
-            console.log("🔄 Restored original send method");
-            
-            if (this.isJSONRPCResponse(responseMessage) && responseMessage.id === message.id) {
-              console.log("✅ Found matching initialize response - returning immediately");
-              // This is the initialize response - return it immediately
-              resolve(new Response(JSON.stringify(responseMessage), {
-                status: 200,
-                headers: { "Content-Type": "application/json" },
-              }));
-            } else {
-              console.log("🔀 Different message - forwarding to original handler");
-              // Forward other messages to original handler
-              await originalSend(responseMessage);
-            }
-          };
-          
-          // Now process the initialize request
-          console.log("📨 Calling onmessage for initialize request");
-          console.log("🔍 Client protocol version:", message.params?.protocolVersion);
-          if (this.onmessage) {
-            this.onmessage(message);
-          } else {
-            console.log("❌ No onmessage handler registered!");
-          }
-        });
+      // Every message except initialize must belong to a live session
+      const isInitialize = !Array.isArray(parsed) && this.isJSONRPCRequest(parsed) && parsed.method === "initialize";
+      if (!this.options.stateless && !isInitialize) {
+        const sessionError = this.checkSession(sessionId);
+        if (sessionError) {
+          return sessionError;
+        }
       }
 
-      // Handle the message through the registered handler
-      console.log("📨 Processing message through onmessage");
-      if (this.onmessage) {
-        this.onmessage(message);
-      } else {
-        console.log("❌ No onmessage handler registered for regular message!");
+      // Expose the HTTP headers (including the session ID) to request handlers
+      const headers = Object.fromEntries(request.headers.entries());
+      if (this.options.stateless) {
+        // No session is ever issued, so a session ID sent by the client must not scope anything
+        delete headers["mcp-session-id"];
       }
+      const extra: MessageExtraInfo = { requestInfo: { headers } };
 
-      // Return appropriate HTTP status based on message type
-      if (this.isJSONRPCNotification(message)) {
-        // Notifications don't expect a response
+      if (Array.isArray(parsed)) {
+        return this.handleBatch(parsed, request, acceptHeader, sessionId, extra);
+      }
+      const message = parsed;
+
+      // Special logging for tools/list
+      if (this.isJSONRPCRequest(message) && message.method === "tools/list") {
+        console.log("🔧 TOOLS/LIST request detected");
+      }
+
+      if (this.isJSONRPCNotification(message) || this.isJSONRPCResponse(message)) {
+        // Notifications and client responses don't expect a response
+        if (!this.receiveMessage(message, sessionId, extra)) {
+          return new Response("Bad Request: Response does not match a request sent to this session", {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
         return new Response("", { 
           status: 202,
           headers: { "Content-Type": "application/json" },
         });
-      } else if (this.isJSONRPCRequest(message)) {
-        // Track request for response correlation if we have a session
-        if (sessionId && "id" in message && message.id !== null) {
-          this.pendingRequests.set(message.id, {
-            requestId: message.id,
-            sessionId,
-            timestamp: Date.now(),
-          });
-        }
-        
-        // Check if client accepts streaming response
-        if (acceptHeader.includes("text/event-stream")) {
-          // Return streaming response for requests
-          const stream = new ReadableStream<string>({
-            start: (controller) => {
-              // Store controller for sending response later
-              if (sessionId) {
-                const session = this.sessions.get(sessionId);
-                if (session) {
-                  session.controller = controller;
-                }
-              }
-            },
-          });
-          
-          return new Response(stream.pipeThrough(new TextEncoderStream()), {
-            headers: {
-              "Content-Type": "text/event-stream",
-              "Cache-Control": "no-cache",
-              "Connection": "keep-alive",
-            },
-          });
-        } else {
-          // Return 202 for JSON responses
-          return new Response("", { 
-            status: 202,
-            headers: { "Content-Type": "application/json" },
-          });
-        }
-      } else {
+      }
+
+      if (!this.isJSONRPCRequest(message)) {
         // Invalid or unrecognized message format
         return new Response("Invalid JSON-RPC message", { 
           status: 400,
           headers: { "Content-Type": "application/json" },
         });
       }
+
+      const pendingRequest = this.trackRequest(message, sessionId);
+      const dispatched: JSONRPCRequest = { ...message, id: pendingRequest.requestId };
+
+      // Initialize is always answered with JSON, as are clients that do not accept SSE
+      if (isInitialize || !acceptHeader.includes("text/event-stream")) {
+        const answer = this.awaitResponse(pendingRequest, request.signal);
+        console.log("📨 Processing request through onmessage, answering with JSON");
+        this.onmessage?.(dispatched, extra);
+        const response = await answer;
+
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (isInitialize && !this.options.stateless && "result" in response) {
+          // A successful initialize starts the session
+          const newSessionId = this.generateSessionId();
+          this.sessions.set(newSessionId, {
+            id: newSessionId,
+            lastSeen: Date.now(),
+            protocolVersion: response.result.protocolVersion as string | undefined,
+          });
+          // Remember what this client supports for server-initiated requests
+          if (message.params?.capabilities) {
+            this.clientCapabilities.set(newSessionId, message.params.capabilities as ClientCapabilities);
+          }
+          headers["Mcp-Session-Id"] = newSessionId;
+          headers["Access-Control-Expose-Headers"] = "Mcp-Session-Id";
+          console.log("🔐 Session created:", newSessionId);
+        }
+
+        return new Response(JSON.stringify(response), { status: 200, headers });
+      }
+
+      // Return a stream dedicated to this request; it closes after the response
+      const stream = this.openRequestStream([pendingRequest], sessionId);
+      console.log("📨 Processing request through onmessage, answering over SSE");
+      this.onmessage?.(dispatched, extra);
+      return stream;
     } catch (error) {
       const parseError = error instanceof Error ? error : new Error(String(error));
       this.handleError(parseError, 'Failed to parse JSON-RPC message');
@@ -560,11 +664,218 @@ export class StreamableHttpTransport implements Transport {
     }
   }
 
+  /**
+   * Handles a POST body holding a JSON-RPC batch
+   * 
+   * Batches were part of the 2025-03-26 protocol revision and removed in
+   * 2025-06-18, so they are only accepted from clients that negotiated an
+   * older version. Malformed entries are answered with `Invalid Request`
+   * errors without affecting the rest of the batch, notifications and
+   * responses get no answer, and requests are answered in one JSON array or
+   * over one SSE stream that closes after the last response.
+   * 
+   * @param batch - Entries of the batch
+   * @param request - The HTTP request carrying the batch
+   * @param acceptHeader - Value of the request's Accept header
+   * @param sessionId - Session the batch belongs to (null in stateless mode)
+   * @param extra - Request information passed to the handlers
+   * @returns HTTP response with the answers to the batch's requests
+   */
+  private async handleBatch(
+    batch: unknown[],
+    request: Request,
+    acceptHeader: string,
+    sessionId: string | null,
+    extra: MessageExtraInfo,
+  ): Promise<Response> {
+    const protocolVersion = sessionId
+      ? this.sessions.get(sessionId)?.protocolVersion
+      : request.headers.get("MCP-Protocol-Version") ?? "2025-03-26";
+    if (!protocolVersion || protocolVersion >= "2025-06-18") {
+      console.log(`❌ Batch rejected for protocol version ${protocolVersion}`);
+      return this.errorResponse(400, `JSON-RPC batches are not supported in protocol version ${protocolVersion}`);
+    }
+    if (batch.length === 0) {
+      return this.errorResponse(400, "Batch must not be empty");
+    }
+
+    const errors: JSONRPCErrorResponse[] = [];
+    const requests: JSONRPCRequest[] = [];
+    for (const entry of batch) {
+      const parsedEntry = JSONRPCMessageSchema.safeParse(entry);
+      if (!parsedEntry.success) {
+        errors.push({ jsonrpc: "2.0", id: null, error: { code: ErrorCode.InvalidRequest, message: "Invalid Request" } });
+        continue;
+      }
+
+      const message = parsedEntry.data;
+      if (this.isJSONRPCNotification(message) || this.isJSONRPCResponse(message)) {
+        // Responses from the wrong session are ignored, as they get no answer anyway
+        this.receiveMessage(message, sessionId, extra);
+      } else if (this.isJSONRPCRequest(message)) {
+        if (message.method === "initialize") {
+          errors.push({ jsonrpc: "2.0", id: message.id, error: { code: ErrorCode.InvalidRequest, message: "initialize must not be part of a batch" } });
+        } else {
+          requests.push(message);
+        }
+      }
+    }
+
+    if (requests.length === 0) {
+      return errors.length === 0
+        ? new Response("", { status: 202, headers: { "Content-Type": "application/json" } })
+        : new Response(JSON.stringify(errors), { status: 200, headers: { "Content-Type": "application/json" } });
+    }
+
+    const pendingRequests = requests.map(message => this.trackRequest(message, sessionId));
+    const dispatchAll = () => {
+      requests.forEach((message, index) => this.onmessage?.({ ...message, id: pendingRequests[index].requestId }, extra));
+    };
+
+    if (!acceptHeader.includes("text/event-stream")) {
+      const answers = pendingRequests.map(pendingRequest => this.awaitResponse(pendingRequest, request.signal));
+      console.log(`📨 Processing batch of ${requests.length} requests, answering with JSON`);
+      dispatchAll();
+      const responses = [...errors, ...await Promise.all(answers)];
+      return new Response(JSON.stringify(responses), { status: 200, headers: { "Content-Type": "application/json" } });
+    }
+
+    // Errors for malformed entries go first, then the responses as they complete
+    const stream = this.openRequestStream(pendingRequests, sessionId);
+    for (const error of errors) {
+      await this.writeEvent(pendingRequests[0].stream!, error);
+    }
+    console.log(`📨 Processing batch of ${requests.length} requests, answering over SSE`);
+    dispatchAll();
+    return stream;
+  }
+
+  /**
+   * Processes a notification or response from a client
+   * 
+   * @param message - Notification, or response to a server-initiated request
+   * @param sessionId - Session the message came from (null in stateless mode)
+   * @param extra - Request information passed to the handlers
+   * @returns False if the message was rejected because it answers a request sent to another session
+   */
+  private receiveMessage(
+    message: JSONRPCNotification | JSONRPCResponse,
+    sessionId: string | null,
+    extra: MessageExtraInfo,
+  ): boolean {
+    // Responses to server-initiated requests must come from the session they were sent to
+    if (this.isJSONRPCResponse(message)) {
+      const expectedSessionId = this.outgoingRequests.get(message.id);
+      if (expectedSessionId !== undefined) {
+        if (expectedSessionId !== sessionId && !this.options.stateless) {
+          console.log(`❌ Response ${message.id} does not belong to session ${sessionId}`);
+          return false;
+        }
+        this.outgoingRequests.delete(message.id);
+      }
+    }
+
+    // A cancelled request must not be answered anymore; the client refers to
+    // it by its own ID, which is only meaningful within its session
+    if (this.isJSONRPCNotification(message) && message.method === "notifications/cancelled") {
+      const cancelledId = message.params?.requestId;
+      const cancelledRequest = Array.from(this.pendingRequests.values()).find(pendingRequest =>
+        pendingRequest.clientRequestId === cancelledId && pendingRequest.sessionId === (sessionId ?? undefined));
+      if (cancelledRequest) {
+        const reason = typeof message.params?.reason === "string" ? message.params.reason : "Cancelled by client";
+        this.cancelRequest(cancelledRequest.requestId, reason);
+      }
+      return true;
+    }
+
+    // The protocol layer cannot tell which session a notification came from
+    if (sessionId && this.isJSONRPCNotification(message) && message.method === "notifications/roots/list_changed") {
+      this.onrootslistchanged?.(sessionId);
+    }
+
+    console.log("📨 Processing message through onmessage");
+    this.onmessage?.(message, extra);
+    return true;
+  }
+
+  /**
+   * Starts tracking a request from a client
+   * 
+   * Clients choose request IDs independently of each other, so requests are
+   * dispatched under an ID unique to this transport and answered with their own.
+   * 
+   * @param message - Request as sent by the client
+   * @param sessionId - Session the request came from (null in stateless mode)
+   * @returns Tracking record; dispatch the request under its `requestId`
+   */
+  private trackRequest(message: JSONRPCRequest, sessionId: string | null): PendingRequest {
+    const pendingRequest: PendingRequest = {
+      requestId: this.nextRequestId++,
+      clientRequestId: message.id,
+      sessionId: sessionId ?? undefined,
+      timestamp: Date.now(),
+    };
+    this.pendingRequests.set(pendingRequest.requestId, pendingRequest);
+    return pendingRequest;
+  }
+
+  /**
+   * Opens the SSE stream that answers one or more requests of a POST
+   * 
+   * The stream closes once every request has been answered.
+   * 
+   * @param pendingRequests - Requests answered over the stream
+   * @param sessionId - Session the requests came from (null in stateless mode)
+   * @returns SSE response to return from the POST
+   */
+  private openRequestStream(pendingRequests: PendingRequest[], sessionId: string | null): Response {
+    const stream: SseStream = {
+      id: this.eventStore && sessionId ? this.generateStreamId(sessionId) : undefined,
+    };
+    for (const pendingRequest of pendingRequests) {
+      pendingRequest.stream = stream;
+    }
+
+    const body = this.openEventStream(stream, [], () => {
+      // Client went away before the responses arrived and cannot resume
+      for (const pendingRequest of pendingRequests) {
+        if (this.pendingRequests.get(pendingRequest.requestId) === pendingRequest) {
+          this.cancelRequest(pendingRequest.requestId, "Client closed the response stream");
+        }
+      }
+    });
+
+    return new Response(body.pipeThrough(new TextEncoderStream()), {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  }
+
+  /**
+   * Creates an HTTP error response carrying a JSON-RPC `Invalid Request` error
+   * 
+   * @param status - HTTP status code
+   * @param message - Error message
+   * @returns HTTP response with a JSON-RPC error body
+   */
+  private errorResponse(status: number, message: string): Response {
+    const error: JSONRPCErrorResponse = {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: ErrorCode.InvalidRequest, message },
+    };
+    return new Response(JSON.stringify(error), { status, headers: { "Content-Type": "application/json" } });
+  }
+
   /**
    * Handles GET requests for establishing Server-Sent Events streams
    * 
-   * Creates a persistent connection for real-time message delivery to clients.
-   * Each connection gets a unique session ID for tracking.
+   * Creates a persistent connection for server messages that do not belong to
+   * a particular request, such as list change notifications. A session has at
+   * most one such stream; opening a new one replaces the previous one.
    * 
    * @param request - The HTTP GET request
    * @returns Response with SSE stream
@@ -572,23 +883,31 @@ export class StreamableHttpTransport implements Transport {
   private async handleGetRequest(request: Request): Promise<Response> {
     console.log("🟢 GET request received for SSE stream");
     
-    // Check for existing session ID in headers
-    const existingSessionId = request.headers.get("Mcp-Session-Id");
-    const sessionId = existingSessionId || this.generateSessionId();
-    console.log("🔐 SSE Session ID:", sessionId, existingSessionId ? "(existing)" : "(new)");
-    
-    const stream = new ReadableStream<string>({
-      start: (controller) => {
-        const session: Session = {
-          id: sessionId,
-          controller,
-        };
-        this.sessions.set(sessionId, session);
-      },
-      cancel: () => {
-        this.sessions.delete(sessionId);
-      },
-    });
+    // Streams can only be opened for sessions created by initialize
+    const sessionId = request.headers.get("Mcp-Session-Id");
+    const sessionError = this.checkSession(sessionId);
+    if (sessionError || !sessionId) {
+      return sessionError!;
+    }
+    console.log("🔐 SSE Session ID:", sessionId);
+
+    // A client that lost its connection resumes the stream it was reading
+    const lastEventId = request.headers.get("Last-Event-ID");
+    let stream: ReadableStream<string>;
+    if (lastEventId) {
+      const resumed = await this.resumeEventStream(sessionId, lastEventId);
+      if (!resumed) {
+        console.log(`❌ Cannot resume after event ${lastEventId}`);
+        return new Response("Bad Request: Last-Event-ID is unknown or has expired", { status: 400 });
+      }
+      stream = resumed;
+    } else {
+      const session = this.sessions.get(sessionId)!;
+      session.stream = { id: this.eventStore ? this.generateStreamId(sessionId) : undefined };
+      // Every request is answered on its own POST, so losing this stream
+      // cancels nothing; the session stays valid for a new one
+      stream = this.openEventStream(session.stream, []);
+    }
 
     return new Response(stream.pipeThrough(new TextEncoderStream()), {
       headers: {
@@ -602,6 +921,25 @@ export class StreamableHttpTransport implements Transport {
     });
   }
 
+  /**
+   * Handles DELETE requests that terminate a session
+   * 
+   * @param request - The HTTP request carrying the session ID
+   * @returns Empty response once the session has ended
+   */
+  private async handleDeleteRequest(request: Request): Promise<Response> {
+    console.log("🔴 DELETE request received");
+
+    const sessionId = request.headers.get("Mcp-Session-Id");
+    const sessionError = this.checkSession(sessionId);
+    if (sessionError || !sessionId) {
+      return sessionError!;
+    }
+
+    this.closeSession(sessionId, "Session terminated by client");
+    return new Response(null, { status: 204 });
+  }
+
   /**
    * Sends a JSON-RPC response back to the originating client
    * 
@@ -620,26 +958,33 @@ export class StreamableHttpTransport implements Transport {
       if (pendingRequest) {
         // Remove the pending request as it's now being fulfilled
         this.pendingRequests.delete(responseId);
+        const clientResponse: JSONRPCResponse = { ...response, id: pendingRequest.clientRequestId };
+
+        // Requests answered with JSON are waiting in their POST handler
+        if (pendingRequest.respond) {
+          pendingRequest.respond(clientResponse);
+          return;
+        }
+
+        // The response is the last message on the request's own stream
+        if (pendingRequest.stream) {
+          await this.writeEvent(pendingRequest.stream, clientResponse);
+          this.closeRequestStream(pendingRequest);
+          return;
+        }
         
         // Find the target session
-        const targetSession = this.sessions.get(pendingRequest.sessionId);
+        const targetSession = pendingRequest.sessionId ? this.sessions.get(pendingRequest.sessionId) : undefined;
         
-        if (targetSession && targetSession.controller) {
-          // Send response to the specific session
-          const responseStr = `data: ${JSON.stringify(response)}\n\n`;
-          try {
-            targetSession.controller.enqueue(responseStr);
-          } catch (error) {
-            // Session is closed, remove it and fall back to broadcast
-            this.sessions.delete(pendingRequest.sessionId);
-            const sessionError = error instanceof Error ? error : new Error(String(error));
-            this.handleError(sessionError, `Failed to send response to session ${pendingRequest.sessionId}`);
-            await this.broadcastMessage(response);
+        if (targetSession && targetSession.stream) {
+          // Send response to the specific session, falling back to broadcast
+          if (!await this.writeEvent(targetSession.stream, clientResponse)) {
+            await this.broadcastMessage(clientResponse);
           }
         } else {
           // Session not found, broadcast to all sessions as fallback
           this.handleError(new Error(`Session ${pendingRequest.sessionId} not found`), 'Response routing failed');
-          await this.broadcastMessage(response);
+          await this.broadcastMessage(clientResponse);
         }
       } else {
         // No pending request found, broadcast to all sessions
@@ -659,6 +1004,367 @@ export class StreamableHttpTransport implements Transport {
     }
   }
 
+  /**
+   * Waits for the response of a request answered with `application/json`
+   * 
+   * Resolves with a JSON-RPC error when the request times out or is
+   * cancelled, e.g. because the client disconnected or ended its session.
+   * 
+   * @param pendingRequest - Request to wait for; must not have been dispatched yet
+   * @param signal - Aborted when the client closes the HTTP connection
+   * @returns Promise resolving to the response, with the client's request ID
+   */
+  private awaitResponse(pendingRequest: PendingRequest, signal?: AbortSignal): Promise<JSONRPCResponse | JSONRPCError> {
+    const timeoutMs = this.options.requestTimeoutMs ?? 5 * 60 * 1000;
+
+    return new Promise(resolve => {
+      const onAbort = () => this.cancelRequest(pendingRequest.requestId, "Client disconnected");
+      const timer = setTimeout(() => {
+        resolve({
+          jsonrpc: "2.0",
+          id: pendingRequest.clientRequestId,
+          error: { code: ErrorCode.RequestTimeout, message: `Request timed out after ${timeoutMs}ms` },
+        });
+        this.cancelRequest(pendingRequest.requestId, `Timed out after ${timeoutMs}ms`);
+      }, timeoutMs);
+
+      pendingRequest.respond = (response) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        resolve(response);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Delivers a message raised while handling a request to that request's client
+   * 
+   * Uses the request's own stream when it has one, otherwise the session's GET stream.
+   * 
+   * @param pendingRequest - Request the message relates to
+   * @param message - JSON-RPC message to deliver
+   * @returns True if the message was written to a stream
+   */
+  private async sendRelated(pendingRequest: PendingRequest, message: JSONRPCMessage): Promise<boolean> {
+    if (pendingRequest.stream) {
+      return this.writeEvent(pendingRequest.stream, message);
+    }
+
+    return pendingRequest.sessionId ? this.sendToSession(pendingRequest.sessionId, message) : false;
+  }
+
+  /**
+   * Writes a message to an SSE stream, storing it for replay when the stream is resumable
+   * 
+   * A resumable stream whose client is disconnected still accepts messages,
+   * which are delivered once the client resumes it.
+   * 
+   * @param stream - Stream to write to
+   * @param message - JSON-RPC message to write
+   * @returns True if the message was written or stored for replay
+   */
+  private async writeEvent(stream: SseStream, message: StreamMessage): Promise<boolean> {
+    if (!stream.controller && stream.lastEventId === undefined) {
+      return false;
+    }
+
+    try {
+      let event = `data: ${JSON.stringify(message)}\n\n`;
+      if (stream.id && this.eventStore) {
+        stream.lastEventId = await this.eventStore.storeEvent(stream.id, message);
+        event = `id: ${stream.lastEventId}\n${event}`;
+      }
+
+      stream.controller?.enqueue(event);
+      return true;
+    } catch (error) {
+      // Stream is closed; a resumable one keeps the stored event for replay
+      stream.controller = undefined;
+      const streamError = error instanceof Error ? error : new Error(String(error));
+      this.handleError(streamError, `Failed to write to stream ${stream.id ?? "(not resumable)"}`);
+      return stream.lastEventId !== undefined;
+    }
+  }
+
+  /**
+   * Creates the body of an SSE response and connects it to a stream record
+   * 
+   * @param stream - Stream record to connect, or undefined to close the body after the replayed events
+   * @param replayed - Events to send before any new ones
+   * @param onDisconnect - Invoked when the client disconnects from a stream it cannot resume
+   * @returns Readable stream of SSE text
+   */
+  private openEventStream(
+    stream: SseStream | undefined,
+    replayed: string[],
+    onDisconnect?: () => void,
+  ): ReadableStream<string> {
+    let body: ReadableStreamDefaultController<string>;
+    return new ReadableStream<string>({
+      start: (controller) => {
+        body = controller;
+        for (const event of replayed) {
+          controller.enqueue(event);
+        }
+
+        if (stream) {
+          // A connection the client abandoned without the server noticing
+          try {
+            stream.controller?.close();
+          } catch {
+            // Already closed
+          }
+          stream.controller = controller;
+        } else {
+          controller.close();
+        }
+      },
+      cancel: () => {
+        if (!stream || stream.controller !== body) {
+          // The stream was closed or the client already reconnected
+          return;
+        }
+
+        stream.controller = undefined;
+        if (stream.lastEventId === undefined) {
+          onDisconnect?.();
+        }
+      },
+    });
+  }
+
+  /**
+   * Replays the events a reconnecting client missed and continues the stream
+   * 
+   * The stream can be the session's GET stream or the stream of a request
+   * whose POST connection dropped. A request that finished in the meantime
+   * has its response among the replayed events, after which the stream ends.
+   * 
+   * @param sessionId - Session of the reconnecting client
+   * @param lastEventId - ID of the last event the client received
+   * @returns Body of the resumed stream, or undefined when the event is unknown, expired or belongs to another session
+   */
+  private async resumeEventStream(sessionId: string, lastEventId: string): Promise<ReadableStream<string> | undefined> {
+    if (!this.eventStore) {
+      return undefined;
+    }
+
+    // Replay until caught up, since new events may be stored while replaying
+    const replayed: string[] = [];
+    let cursor = lastEventId;
+    for (;;) {
+      const streamId = await this.eventStore.replayEventsAfter(cursor, {
+        send: async (eventId, message) => {
+          replayed.push(`id: ${eventId}\ndata: ${JSON.stringify(message)}\n\n`);
+          cursor = eventId;
+        },
+      });
+      if (!streamId.startsWith(`${sessionId}_`)) {
+        return undefined;
+      }
+
+      const session = this.sessions.get(sessionId);
+      const stream = session?.stream?.id === streamId
+        ? session.stream
+        : Array.from(this.pendingRequests.values()).find(pendingRequest => pendingRequest.stream?.id === streamId)?.stream;
+
+      if (!stream || stream.lastEventId === cursor) {
+        console.log(`🔁 Resuming stream ${streamId} with ${replayed.length} missed events`);
+        return this.openEventStream(stream, replayed);
+      }
+    }
+  }
+
+  /**
+   * Ends the SSE stream a request was answered on
+   * 
+   * @param pendingRequest - Request whose stream is closed
+   */
+  private closeRequestStream(pendingRequest: PendingRequest): void {
+    // Requests of a batch share a stream, which stays open until the last one is answered
+    const { stream } = pendingRequest;
+    if (Array.from(this.pendingRequests.values()).some(other => other.stream === stream)) {
+      return;
+    }
+
+    try {
+      pendingRequest.stream?.controller?.close();
+    } catch {
+      // Stream was already cancelled by the client
+    }
+    if (pendingRequest.stream) {
+      pendingRequest.stream.controller = undefined;
+    }
+  }
+
+  /**
+   * Cancels an in-flight request on behalf of a client that went away
+   * 
+   * Drops the request from response routing and dispatches a synthetic
+   * `notifications/cancelled` message, so the MCP server aborts the handler's
+   * signal and never sends the late response.
+   * 
+   * @param requestId - ID of the request to cancel
+   * @param reason - Human-readable cancellation reason
+   */
+  private cancelRequest(requestId: string | number, reason: string): void {
+    const pendingRequest = this.pendingRequests.get(requestId);
+    if (!pendingRequest) {
+      return;
+    }
+    this.pendingRequests.delete(requestId);
+    this.closeRequestStream(pendingRequest);
+    pendingRequest.respond?.({
+      jsonrpc: "2.0",
+      id: pendingRequest.clientRequestId,
+      error: { code: ErrorCode.ConnectionClosed, message: `Request cancelled: ${reason}` },
+    });
+
+    console.log(`🚫 Cancelling request ${requestId}: ${reason}`);
+    this.onmessage?.({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId, reason },
+    });
+  }
+
+  /**
+   * Cancels every request a session is still waiting for
+   * 
+   * @param sessionId - Session whose requests are cancelled
+   * @param reason - Human-readable cancellation reason
+   */
+  private cancelSessionRequests(sessionId: string, reason: string): void {
+    for (const pendingRequest of Array.from(this.pendingRequests.values())) {
+      if (pendingRequest.sessionId === sessionId) {
+        this.cancelRequest(pendingRequest.requestId, reason);
+      }
+    }
+    for (const [requestId, targetSessionId] of Array.from(this.outgoingRequests.entries())) {
+      if (targetSessionId === sessionId) {
+        this.outgoingRequests.delete(requestId);
+      }
+    }
+  }
+
+  /**
+   * Checks that a request belongs to a live session and marks the session as active
+   * 
+   * @param sessionId - Value of the request's `Mcp-Session-Id` header
+   * @returns Error response to send back (400 without a session ID, 404 for an
+   *   unknown or expired session), or undefined when the session is valid
+   */
+  private checkSession(sessionId: string | null): Response | undefined {
+    if (!sessionId) {
+      console.log("❌ Missing Mcp-Session-Id header");
+      return new Response("Bad Request: Mcp-Session-Id header is required", { status: 400 });
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.log(`❌ Unknown session: ${sessionId}`);
+      return new Response("Not Found: session does not exist or has expired", { status: 404 });
+    }
+
+    session.lastSeen = Date.now();
+    return undefined;
+  }
+
+  /**
+   * Ends a session, cancelling its outstanding requests and closing its stream
+   * 
+   * @param sessionId - Session to end
+   * @param reason - Human-readable reason, used for the cancellations
+   */
+  private closeSession(sessionId: string, reason: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    console.log(`🔒 Closing session ${sessionId}: ${reason}`);
+    this.cancelSessionRequests(sessionId, reason);
+    this.sessions.delete(sessionId);
+    this.clientCapabilities.delete(sessionId);
+
+    if (session.stream?.controller) {
+      try {
+        session.stream.controller.close();
+      } catch {
+        // Stream was already closed by the client
+      }
+    }
+
+    this.onsessionclosed?.(sessionId);
+  }
+
+  /**
+   * Ends sessions that have neither an open stream nor recent requests
+   */
+  private expireIdleSessions(): void {
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+    const now = Date.now();
+
+    for (const session of Array.from(this.sessions.values())) {
+      if (!session.stream?.controller && now - session.lastSeen > idleTimeoutMs) {
+        this.closeSession(session.id, "Session expired");
+      }
+    }
+  }
+
+  /**
+   * Lists the IDs of all live sessions
+   * 
+   * @returns Array of session IDs
+   */
+  getSessionIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Returns the capabilities a session's client declared when it initialized
+   * 
+   * @param sessionId - ID of the session
+   * @returns Client capabilities, or undefined when the session's initialize request was not seen
+   */
+  getClientCapabilities(sessionId: string): ClientCapabilities | undefined {
+    return this.clientCapabilities.get(sessionId);
+  }
+
+  /**
+   * Returns the ID a client gave a request that is still being handled
+   * 
+   * Requests are dispatched under IDs unique to the transport, so handlers
+   * see those rather than the ones the client chose.
+   * 
+   * @param requestId - ID the request was dispatched under
+   * @returns Client's ID for the request, or undefined when it is no longer pending
+   */
+  getClientRequestId(requestId: RequestId): RequestId | undefined {
+    return this.pendingRequests.get(requestId)?.clientRequestId;
+  }
+
+  /**
+   * Sends a message to a single session's SSE stream
+   * 
+   * Used for notifications that only concern specific clients, such as
+   * updates to resources a session has subscribed to.
+   * 
+   * @param sessionId - ID of the target session
+   * @param message - JSON-RPC message to send
+   * @returns Promise resolving to true if the message was delivered to an open
+   *   stream, or stored for a client that can resume its stream
+   */
+  async sendToSession(sessionId: string, message: JSONRPCMessage): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !session.stream) {
+      return false;
+    }
+
+    return this.writeEvent(session.stream, message);
+  }
+
   /**
    * Broadcasts a message to all active sessions
    * 
@@ -666,19 +1372,8 @@ export class StreamableHttpTransport implements Transport {
    */
   private async broadcastMessage(message: JSONRPCMessage): Promise<void> {
     try {
-      const messageStr = `data: ${JSON.stringify(message)}\n\n`;
-      
-      for (const [sessionId, session] of this.sessions.entries()) {
-        try {
-          if (session.controller) {
-            session.controller.enqueue(messageStr);
-          }
-        } catch (error) {
-          // Session is closed, remove it and log the error
-          this.sessions.delete(sessionId);
-          const sessionError = error instanceof Error ? error : new Error(String(error));
-          this.handleError(sessionError, `Session ${sessionId} closed unexpectedly`);
-        }
+      for (const sessionId of Array.from(this.sessions.keys())) {
+        await this.sendToSession(sessionId, message);
       }
     } catch (error) {
       const broadcastError = error instanceof Error ? error : new Error(String(error));
@@ -686,9 +1381,25 @@ export class StreamableHttpTransport implements Transport {
     }
   }
 
+  /**
+   * Generates an unguessable session ID
+   * 
+   * @returns Cryptographically random UUID
+   */
   private generateSessionId(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
+    return crypto.randomUUID();
+  }
+
+  /**
+   * Generates the ID of a resumable stream
+   * 
+   * Stream IDs start with the session ID, so that a session can only resume its own streams.
+   * 
+   * @param sessionId - Session the stream belongs to
+   * @returns Unique stream ID
+   */
+  private generateStreamId(sessionId: string): string {
+    return `${sessionId}_${crypto.randomUUID()}`;
   }
 
   private isValidOrigin(origin: string): boolean {